@@ -6,7 +6,9 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { createHmac } from 'crypto';
-import { AuthToken, AuthOptions, AgentIdentity, SharedVault } from './types';
+import { AuthToken, AuthOptions, AgentIdentity, SharedVault, GSNLogger } from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+import { AuthSnapshot, SnapshotImportMode } from './gsn-snapshot';
 
 export interface AuthConfig {
   secretKey?: string;
@@ -21,12 +23,14 @@ export class GSNAuth {
   private allowedAgents: string[];
   private issuedTokens: Map<string, AuthToken> = new Map();
   private revokedTokens: Set<string> = new Set();
+  private logger: GSNLogger;
 
   constructor(agentIdentity: AgentIdentity, options: AuthOptions = {}) {
     this.agentIdentity = agentIdentity;
     this.secretKey = options.secretKey || uuidv4();
     this.tokenExpiry = options.tokenExpiry || 3600; // 1 hour default
     this.allowedAgents = options.allowedAgents || [];
+    this.logger = (options.logger || NOOP_LOGGER).child({ module: 'auth', agentId: agentIdentity.id });
   }
 
   /**
@@ -61,6 +65,7 @@ export class GSNAuth {
     };
 
     this.issuedTokens.set(token.token, token);
+    this.logger.debug('Issued token', { scope, expiresAt: token.expiresAt });
     return token;
   }
 
@@ -90,6 +95,7 @@ export class GSNAuth {
 
     try {
       if (!this.verifyPayload(payload, signature)) {
+        this.logger.debug('Rejected token with invalid signature');
         return null;
       }
 
@@ -116,6 +122,7 @@ export class GSNAuth {
   public revokeToken(tokenString: string): boolean {
     this.issuedTokens.delete(tokenString);
     this.revokedTokens.add(tokenString);
+    this.logger.info('Revoked token');
     return true;
   }
 
@@ -196,6 +203,33 @@ export class GSNAuth {
     return now < token.issuedAt || now > token.expiresAt;
   }
 
+  /**
+   * Signing key, issued and revoked tokens, for GSNConnector.exportSnapshot()
+   */
+  public exportState(): AuthSnapshot {
+    return {
+      secretKey: this.secretKey,
+      issuedTokens: Array.from(this.issuedTokens.values()),
+      revokedTokens: Array.from(this.revokedTokens),
+    };
+  }
+
+  /**
+   * Load tokens from a snapshot. Only 'replace' adopts the snapshot's signing key, so in
+   * 'merge' mode imported tokens stay revoked but no longer validate unless the keys match.
+   */
+  public importState(state: AuthSnapshot, mode: SnapshotImportMode): void {
+    if (mode === 'replace') {
+      this.secretKey = state.secretKey;
+      this.issuedTokens.clear();
+      this.revokedTokens.clear();
+    }
+    state.revokedTokens.forEach(token => this.revokedTokens.add(token));
+    state.issuedTokens
+      .filter(token => !this.revokedTokens.has(token.token))
+      .forEach(token => this.issuedTokens.set(token.token, token));
+  }
+
   /**
    * Clean up expired tokens
    */
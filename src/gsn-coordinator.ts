@@ -12,7 +12,18 @@ import {
   AgentIdentity,
   CoordinationEvent,
   SharedVault,
-} from '../types';
+  StorageAdapter,
+  TaskStatusChange,
+  RoutingDecision,
+  GSNLogger,
+  QueryNode,
+  QueryFields,
+} from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+import { canTransition, isTerminalStatus } from './gsn-task-lifecycle';
+import { GSNTaskTransitionError, GSNDependencyError } from './gsn-errors';
+import { CoordinatorSnapshot, SnapshotImportMode } from './gsn-snapshot';
+import { GSNQueryIndex } from './gsn-query';
 
 export interface TaskAssignment {
   taskId: string;
@@ -20,58 +31,124 @@ export interface TaskAssignment {
   toAgentId: string;
   timestamp: number;
   message?: string;
+  /** Set when the assignee was picked by GSNTaskRouter */
+  routing?: RoutingDecision;
 }
 
+export interface CoordinatorConfig {
+  /** Persist tasks and assignment history so they survive restarts */
+  storage?: StorageAdapter;
+  /** Give every assignment a lease of this many ms; unset means assignments never expire */
+  leaseDurationMs?: number;
+  /**
+   * Called when a lease expires. Return an agent ID to reassign the task to,
+   * or nothing to fail it.
+   */
+  reassign?: (task: Task, expiredHolderId: string) => string | null | undefined;
+  /** Fail tasks whose deadline passes instead of only emitting 'deadline-missed' (default: false) */
+  failOnMissedDeadline?: boolean;
+  logger?: GSNLogger;
+}
+
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const LEASED_STATUSES: ReadonlySet<TaskStatus> = new Set<TaskStatus>(['assigned', 'claimed', 'in-progress']);
+
 export class GSNCoordinator {
   private agentIdentity: AgentIdentity;
   private tasks: Map<string, Task> = new Map();
   private taskAssignments: Map<string, TaskAssignment[]> = new Map();
+  private statusHistory: Map<string, TaskStatusChange[]> = new Map();
+  private dependents: Map<string, Set<string>> = new Map(); // task ID -> IDs of tasks that depend on it
   private eventListeners: ((event: CoordinationEvent) => void)[] = [];
+  private queryIndex: GSNQueryIndex = new GSNQueryIndex();
+  private storage?: StorageAdapter;
+  private config: CoordinatorConfig;
+  private leaseMonitor: NodeJS.Timeout | null = null;
+  private logger: GSNLogger;
 
-  constructor(agentIdentity: AgentIdentity) {
+  constructor(agentIdentity: AgentIdentity, config: CoordinatorConfig = {}) {
     this.agentIdentity = agentIdentity;
+    this.config = config;
+    this.storage = config.storage;
+    this.logger = (config.logger || NOOP_LOGGER).child({ module: 'coordinator', agentId: agentIdentity.id });
+    if (this.storage) {
+      this.tasks = this.storage.load<Task>('tasks');
+      this.taskAssignments = this.storage.load<TaskAssignment[]>('task-assignments');
+      this.statusHistory = this.storage.load<TaskStatusChange[]>('task-status-history');
+      this.tasks.forEach(task => {
+        (task.dependsOn || []).forEach(depId => this.indexDependency(task.id, depId));
+        this.queryIndex.upsert(task.id, queryFields(task));
+      });
+    }
   }
 
   /**
-   * Create a new task
+   * Create a new task.
+   * Tasks with unfinished (or failed, hence retryable) dependencies start 'blocked'; tasks
+   * depending on a cancelled task start 'cancelled'. Throws GSNDependencyError for unknown dependencies.
    */
   public createTask(
     name: string,
     description: string,
     options: TaskOptions = {}
   ): Task {
+    const id = uuidv4();
+    const dependsOn = Array.from(new Set(options.dependsOn || []));
+    dependsOn.forEach(depId => {
+      if (!this.tasks.has(depId)) {
+        throw new GSNDependencyError(`Task depends on unknown task ${depId}`, id, depId);
+      }
+    });
+
+    const dependencies = dependsOn.map(depId => this.tasks.get(depId)!);
+    const cancelledDependency = dependencies.find(dep => dep.status === 'cancelled');
+    const status: TaskStatus = cancelledDependency
+      ? 'cancelled'
+      : dependencies.some(dep => dep.status !== 'completed') ? 'blocked' : options.status || 'pending';
+
     const task: Task = {
-      id: uuidv4(),
+      id,
       agentId: this.agentIdentity.id,
       name,
       description,
-      status: options.status || 'pending',
+      status,
       priority: options.priority || 'medium',
       context: options.context || [],
       result: undefined,
       createdAt: Date.now(),
       updatedAt: Date.now(),
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      requiredCapabilities: options.requiredCapabilities,
+      deadline: options.deadline,
+      reward: options.reward,
+      category: options.category,
+      tags: options.tags,
+      remoteId: options.remoteId,
       metadata: options.metadata,
     };
 
     this.tasks.set(task.id, task);
+    this.saveTask(task);
+    dependsOn.forEach(depId => this.indexDependency(task.id, depId));
+    this.recordStatusChange(task.id, null, task.status, cancelledDependency ? `dependency ${cancelledDependency.id} cancelled` : undefined);
     this.emitCoordinationEvent({ type: 'task-created', task, timestamp: Date.now() });
 
     return task;
   }
 
   /**
-   * Assign a task to another agent
+   * Assign a task to another agent.
+   * Throws GSNTaskTransitionError if the task's status does not allow assignment.
    */
-  public assignTask(taskId: string, toAgentId: string, message?: string): boolean {
+  public assignTask(taskId: string, toAgentId: string, message?: string, routing?: RoutingDecision): boolean {
     const task = this.tasks.get(taskId);
     if (!task) {
       return false;
     }
 
+    this.applyTransition(task, 'assigned', message);
     task.agentId = toAgentId;
-    task.status = 'assigned';
-    task.updatedAt = Date.now();
+    this.grantAutomaticLease(task, toAgentId);
 
     const assignment: TaskAssignment = {
       taskId,
@@ -79,43 +156,274 @@ export class GSNCoordinator {
       toAgentId,
       timestamp: Date.now(),
       message,
+      routing,
     };
 
     const assignments = this.taskAssignments.get(taskId) || [];
     assignments.push(assignment);
     this.taskAssignments.set(taskId, assignments);
+    this.storage?.put('task-assignments', taskId, assignments);
 
     this.tasks.set(taskId, task);
+    this.saveTask(task);
     this.emitCoordinationEvent({ type: 'task-assigned', task, timestamp: Date.now() });
 
     return true;
   }
 
   /**
-   * Update task status
+   * Record that an agent claimed a bounty-board task.
+   * Throws GSNTaskTransitionError if the task's status does not allow claiming.
+   */
+  public claimTask(taskId: string, agentId: string = this.agentIdentity.id, reason?: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return false;
+    }
+
+    this.applyTransition(task, 'claimed', reason);
+    task.agentId = agentId;
+    this.grantAutomaticLease(task, agentId);
+
+    this.saveTask(task);
+    this.emitCoordinationEvent({ type: 'task-updated', task, timestamp: Date.now() });
+    return true;
+  }
+
+  /**
+   * Link a local task to the bounty-board task that mirrors it
+   */
+  public linkRemoteTask(taskId: string, remoteId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return false;
+    }
+
+    task.remoteId = remoteId;
+    task.updatedAt = Date.now();
+    this.saveTask(task);
+    return true;
+  }
+
+  /**
+   * Update task status.
+   * Throws GSNTaskTransitionError if the transition table does not allow the change.
    */
-  public updateTaskStatus(taskId: string, status: TaskStatus, result?: string): boolean {
+  public updateTaskStatus(taskId: string, status: TaskStatus, result?: string, reason?: string): boolean {
     const task = this.tasks.get(taskId);
     if (!task) {
       return false;
     }
 
-    task.status = status;
+    if (task.status === 'blocked' && status === 'pending' && !this.dependenciesMet(task)) {
+      throw new GSNDependencyError(`Task ${taskId} still has unfinished dependencies`, taskId, task.dependsOn![0]);
+    }
+
+    this.applyTransition(task, status, reason);
     if (result !== undefined) {
       task.result = result;
     }
-    task.updatedAt = Date.now();
 
     this.tasks.set(taskId, task);
+    this.saveTask(task);
     this.emitCoordinationEvent({
-      type: status === 'completed' ? 'task-completed' : 'task-updated',
+      type: status === 'completed' ? 'task-completed' : status === 'failed' ? 'task-failed' : 'task-updated',
       task,
       timestamp: Date.now(),
     });
 
+    this.resolveDependents(task);
+    return true;
+  }
+
+  /**
+   * Take a lease on an assigned, claimed or in-progress task.
+   * Fails if another agent holds an unexpired lease.
+   */
+  public acquireLease(taskId: string, agentId: string = this.agentIdentity.id, durationMs?: number): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || !LEASED_STATUSES.has(task.status)) {
+      return false;
+    }
+    if (task.lease && task.lease.holderId !== agentId && task.lease.expiresAt > Date.now()) {
+      return false;
+    }
+
+    const now = Date.now();
+    task.lease = { holderId: agentId, acquiredAt: now, expiresAt: now + this.leaseDuration(durationMs) };
+    this.saveTask(task);
+    return true;
+  }
+
+  /**
+   * Extend a lease held by `agentId`. Fails if the lease is gone, expired or held by someone else.
+   */
+  public renewLease(taskId: string, agentId: string = this.agentIdentity.id, durationMs?: number): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task?.lease || task.lease.holderId !== agentId || task.lease.expiresAt <= Date.now()) {
+      return false;
+    }
+
+    task.lease.expiresAt = Date.now() + this.leaseDuration(durationMs);
+    this.saveTask(task);
+    return true;
+  }
+
+  /**
+   * Give up a lease held by `agentId`
+   */
+  public releaseLease(taskId: string, agentId: string = this.agentIdentity.id): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task?.lease || task.lease.holderId !== agentId) {
+      return false;
+    }
+
+    task.lease = undefined;
+    this.saveTask(task);
+    return true;
+  }
+
+  /**
+   * Expire stale leases: emit 'lease-expired', then reassign through `config.reassign` or fail the task.
+   * Returns the tasks whose lease expired.
+   */
+  public expireLeases(now: number = Date.now()): Task[] {
+    const expired = Array.from(this.tasks.values()).filter(task =>
+      task.lease && task.lease.expiresAt <= now && LEASED_STATUSES.has(task.status)
+    );
+
+    expired.forEach(task => {
+      const holderId = task.lease!.holderId;
+      task.lease = undefined;
+      this.saveTask(task);
+      this.emitCoordinationEvent({ type: 'lease-expired', task, timestamp: now });
+
+      const reason = `lease held by ${holderId} expired`;
+      const nextAgentId = this.config.reassign?.(task, holderId);
+      if (nextAgentId) {
+        if (!canTransition(task.status, 'assigned')) {
+          this.updateTaskStatus(task.id, canTransition(task.status, 'pending') ? 'pending' : 'open', undefined, reason);
+        }
+        this.assignTask(task.id, nextAgentId, reason);
+      } else {
+        this.updateTaskStatus(task.id, 'failed', undefined, reason);
+      }
+    });
+
+    return expired;
+  }
+
+  /**
+   * Report unfinished tasks whose deadline has passed, once per task.
+   * Returns the tasks newly found to be late.
+   */
+  public checkDeadlines(now: number = Date.now()): Task[] {
+    const late = Array.from(this.tasks.values()).filter(task =>
+      task.deadline !== undefined && task.deadline <= now &&
+      task.deadlineMissedAt === undefined && !isTerminalStatus(task.status)
+    );
+
+    late.forEach(task => {
+      task.deadlineMissedAt = now;
+      this.saveTask(task);
+      this.emitCoordinationEvent({ type: 'deadline-missed', task, timestamp: now });
+
+      if (this.config.failOnMissedDeadline && canTransition(task.status, 'failed')) {
+        this.updateTaskStatus(task.id, 'failed', undefined, 'deadline missed');
+      }
+    });
+
+    return late;
+  }
+
+  /**
+   * Periodically expire leases and check deadlines
+   */
+  public startLeaseMonitor(intervalMs: number = 10000): void {
+    this.stopLeaseMonitor();
+    this.leaseMonitor = setInterval(() => {
+      try {
+        this.expireLeases();
+        this.checkDeadlines();
+      } catch (e: any) {
+        this.logger.warn(`Lease monitor error: ${e.message}`);
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the lease monitor
+   */
+  public stopLeaseMonitor(): void {
+    if (this.leaseMonitor) {
+      clearInterval(this.leaseMonitor);
+      this.leaseMonitor = null;
+    }
+  }
+
+  /**
+   * Make a pending or blocked task depend on another task.
+   * Throws GSNDependencyError for unknown tasks, cycles, or tasks that already started.
+   */
+  public addTaskDependency(taskId: string, dependsOnId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return false;
+    }
+
+    const dependency = this.tasks.get(dependsOnId);
+    if (!dependency) {
+      throw new GSNDependencyError(`Task ${taskId} cannot depend on unknown task ${dependsOnId}`, taskId, dependsOnId);
+    }
+    if (taskId === dependsOnId || this.dependsTransitively(dependsOnId, taskId)) {
+      throw new GSNDependencyError(`Dependency ${taskId} -> ${dependsOnId} would create a cycle`, taskId, dependsOnId);
+    }
+    if (task.status !== 'pending' && task.status !== 'blocked') {
+      throw new GSNDependencyError(`Task ${taskId} is already ${task.status}`, taskId, dependsOnId);
+    }
+    if (task.dependsOn?.includes(dependsOnId)) {
+      return true;
+    }
+
+    task.dependsOn = [...(task.dependsOn || []), dependsOnId];
+    this.indexDependency(taskId, dependsOnId);
+
+    if (dependency.status === 'cancelled') {
+      this.updateTaskStatus(taskId, 'cancelled', undefined, `dependency ${dependsOnId} cancelled`);
+    } else if (dependency.status !== 'completed' && task.status === 'pending') {
+      this.updateTaskStatus(taskId, 'blocked', undefined, `waiting on ${dependsOnId}`);
+    } else {
+      task.updatedAt = Date.now();
+      this.saveTask(task);
+    }
     return true;
   }
 
+  /**
+   * Get the tasks a task depends on
+   */
+  public getDependencies(taskId: string): Task[] {
+    return (this.tasks.get(taskId)?.dependsOn || [])
+      .map(id => this.tasks.get(id))
+      .filter((t): t is Task => t !== undefined);
+  }
+
+  /**
+   * Get the tasks that depend directly on a task
+   */
+  public getDependents(taskId: string): Task[] {
+    return Array.from(this.dependents.get(taskId) || [])
+      .map(id => this.tasks.get(id))
+      .filter((t): t is Task => t !== undefined);
+  }
+
+  /**
+   * Get the status audit trail of a task, oldest first
+   */
+  public getTaskStatusHistory(taskId: string): TaskStatusChange[] {
+    return this.statusHistory.get(taskId) || [];
+  }
+
   /**
    * Get task by ID
    */
@@ -131,6 +439,20 @@ export class GSNCoordinator {
     return Array.from(this.tasks.values()).filter(task => task.agentId === targetId);
   }
 
+  /**
+   * Find the local task mirroring a bounty-board task
+   */
+  public getTaskByRemoteId(remoteId: string): Task | undefined {
+    return Array.from(this.tasks.values()).find(task => task.remoteId === remoteId);
+  }
+
+  /**
+   * Get every known task, regardless of owner
+   */
+  public getAllTasks(): Task[] {
+    return Array.from(this.tasks.values());
+  }
+
   /**
    * Get tasks by status
    */
@@ -145,6 +467,16 @@ export class GSNCoordinator {
     return Array.from(this.tasks.values()).filter(task => task.priority === priority);
   }
 
+  /**
+   * Tasks matching a query expression, oldest first, e.g. `status:open AND (backend OR infra) createdAt>-24h`.
+   * `agentId` matches the task's current owner.
+   */
+  public query(expression: string | QueryNode): Task[] {
+    return this.queryIndex.query(expression)
+      .map(id => this.tasks.get(id))
+      .filter((t): t is Task => t !== undefined);
+  }
+
   /**
    * Get task assignments history
    */
@@ -177,30 +509,188 @@ export class GSNCoordinator {
     };
   }
 
+  /**
+   * Unblock dependents once a task completes, or cancel them downstream when it is cancelled.
+   * A failed task may still be retried, so its dependents stay blocked.
+   */
+  private resolveDependents(task: Task): void {
+    if (task.status !== 'completed' && task.status !== 'cancelled') {
+      return;
+    }
+
+    this.getDependents(task.id).forEach(dependent => {
+      if (task.status === 'completed') {
+        if (dependent.status === 'blocked' && this.dependenciesMet(dependent)) {
+          this.applyTransition(dependent, 'pending', 'dependencies completed');
+          this.saveTask(dependent);
+          this.emitCoordinationEvent({ type: 'task-unblocked', task: dependent, timestamp: Date.now() });
+        }
+      } else if (!isTerminalStatus(dependent.status) && canTransition(dependent.status, 'cancelled')) {
+        this.updateTaskStatus(dependent.id, 'cancelled', undefined, `dependency ${task.id} cancelled`);
+      }
+    });
+  }
+
+  /**
+   * Whether every dependency of a task has completed
+   */
+  private dependenciesMet(task: Task): boolean {
+    return (task.dependsOn || []).every(id => this.tasks.get(id)?.status === 'completed');
+  }
+
+  /**
+   * Whether `fromId` depends on `targetId`, directly or through other tasks
+   */
+  private dependsTransitively(fromId: string, targetId: string): boolean {
+    const visited = new Set<string>();
+    const stack = [fromId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === targetId) return true;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      stack.push(...(this.tasks.get(id)?.dependsOn || []));
+    }
+    return false;
+  }
+
+  /**
+   * Persist a task and refresh its query index entry
+   */
+  private saveTask(task: Task): void {
+    this.storage?.put('tasks', task.id, task);
+    this.queryIndex.upsert(task.id, queryFields(task));
+  }
+
+  /**
+   * Record that `taskId` depends on `dependsOnId` in the reverse index
+   */
+  private indexDependency(taskId: string, dependsOnId: string): void {
+    const dependents = this.dependents.get(dependsOnId) || new Set<string>();
+    dependents.add(taskId);
+    this.dependents.set(dependsOnId, dependents);
+  }
+
+  /**
+   * Move a task to a new status, enforcing the transition table and recording history
+   */
+  private applyTransition(task: Task, to: TaskStatus, reason?: string): void {
+    const from = task.status;
+    if (!canTransition(from, to)) {
+      throw new GSNTaskTransitionError(task.id, from, to);
+    }
+
+    task.status = to;
+    task.updatedAt = Date.now();
+    if (!LEASED_STATUSES.has(to)) {
+      task.lease = undefined;
+    }
+    this.recordStatusChange(task.id, from, to, reason);
+  }
+
+  /**
+   * Give a new assignee a lease when `leaseDurationMs` is configured
+   */
+  private grantAutomaticLease(task: Task, holderId: string): void {
+    if (this.config.leaseDurationMs !== undefined) {
+      const now = Date.now();
+      task.lease = { holderId, acquiredAt: now, expiresAt: now + this.config.leaseDurationMs };
+    }
+  }
+
+  private leaseDuration(durationMs?: number): number {
+    return durationMs ?? this.config.leaseDurationMs ?? DEFAULT_LEASE_MS;
+  }
+
+  /**
+   * Append an entry to a task's status history
+   */
+  private recordStatusChange(taskId: string, from: TaskStatus | null, to: TaskStatus, reason?: string): void {
+    const history = this.statusHistory.get(taskId) || [];
+    history.push({ taskId, from, to, agentId: this.agentIdentity.id, timestamp: Date.now(), reason });
+    this.statusHistory.set(taskId, history);
+    this.storage?.put('task-status-history', taskId, history);
+  }
+
   /**
    * Emit coordination event to all listeners
    */
   private emitCoordinationEvent(event: CoordinationEvent): void {
-    console.log(`[GSN-Coordinator] Emitting coordination event: ${event.type}`, {
-      taskId: event.task.id,
-      timestamp: event.timestamp,
-    });
+    this.logger.debug(`Emitting coordination event: ${event.type}`, { taskId: event.task.id });
 
     this.eventListeners.forEach(listener => {
       try {
         listener(event);
       } catch (error) {
-        console.error('[GSN-Coordinator] Error in event listener:', error);
+        this.logger.error('Error in event listener', { taskId: event.task.id, error });
+      }
+    });
+  }
+
+  /**
+   * Tasks with their assignment and status history, for GSNConnector.exportSnapshot()
+   */
+  public exportState(): CoordinatorSnapshot {
+    const assignments: Record<string, TaskAssignment[]> = {};
+    const statusHistory: Record<string, TaskStatusChange[]> = {};
+    this.taskAssignments.forEach((list, taskId) => { assignments[taskId] = [...list]; });
+    this.statusHistory.forEach((list, taskId) => { statusHistory[taskId] = [...list]; });
+    return { tasks: this.getAllTasks(), assignments, statusHistory };
+  }
+
+  /**
+   * Load tasks from a snapshot. 'merge' keeps the more recently updated copy of each task,
+   * together with that copy's assignment and status history. No events are emitted.
+   */
+  public importState(state: CoordinatorSnapshot, mode: SnapshotImportMode): void {
+    if (mode === 'replace') {
+      this.tasks.clear();
+      this.queryIndex.clear();
+      this.taskAssignments.clear();
+      this.statusHistory.clear();
+      this.storage?.clear('tasks');
+      this.storage?.clear('task-assignments');
+      this.storage?.clear('task-status-history');
+    }
+
+    state.tasks.forEach(task => {
+      const existing = this.tasks.get(task.id);
+      if (existing && existing.updatedAt >= task.updatedAt) {
+        return;
+      }
+      this.tasks.set(task.id, task);
+      this.saveTask(task);
+
+      const assignments = state.assignments[task.id];
+      if (assignments) {
+        this.taskAssignments.set(task.id, assignments);
+        this.storage?.put('task-assignments', task.id, assignments);
+      }
+      const history = state.statusHistory[task.id];
+      if (history) {
+        this.statusHistory.set(task.id, history);
+        this.storage?.put('task-status-history', task.id, history);
       }
     });
+
+    this.dependents.clear();
+    this.tasks.forEach(task => (task.dependsOn || []).forEach(depId => this.indexDependency(task.id, depId)));
   }
 
   /**
-   * Clean up resources
+   * Clean up resources (persisted state in storage is kept)
    */
   public dispose(): void {
+    this.stopLeaseMonitor();
     this.taskAssignments.clear();
+    this.statusHistory.clear();
+    this.dependents.clear();
     this.tasks.clear();
+    this.queryIndex.clear();
     this.eventListeners.length = 0;
   }
 }
+
+function queryFields(task: Task): QueryFields {
+  return { tags: task.tags || [], agentId: task.agentId, createdAt: task.createdAt, status: task.status };
+}
@@ -0,0 +1,85 @@
+/**
+ * GSN Discovery Module
+ * Resolvers that find the current platform URL (the tunnel URL changes whenever the platform restarts)
+ */
+
+import { promises as fs } from 'fs';
+import { GSNLogger, PlatformUrlResolver } from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+
+/**
+ * Read platform URLs from a local file, either JSON (`"url"`, `["url", ...]`,
+ * `{ "url": ... }` or `{ "urls": [...] }`) or one URL per line. A missing file resolves to no URLs.
+ */
+export function fileUrlResolver(path: string): PlatformUrlResolver {
+  return async () => {
+    let text: string;
+    try {
+      text = await fs.readFile(path, 'utf8');
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+
+    try {
+      return extractUrls(JSON.parse(text));
+    } catch {
+      return text.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    }
+  };
+}
+
+/**
+ * Fetch platform URLs from a well-known JSON endpoint with the same shapes fileUrlResolver() accepts
+ */
+export function wellKnownUrlResolver(endpoint: string, timeoutMs: number = 5000): PlatformUrlResolver {
+  return async () => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(endpoint, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} from ${endpoint}`);
+      }
+      return extractUrls(await response.json());
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Collect candidate URLs: resolver results first (they reflect the latest restart),
+ * then the configured list. Duplicates and trailing slashes are dropped; failing resolvers are skipped.
+ */
+export async function resolvePlatformUrls(
+  urls: string[],
+  resolvers: PlatformUrlResolver[] = [],
+  logger: GSNLogger = NOOP_LOGGER
+): Promise<string[]> {
+  const resolved: string[] = [];
+  for (const resolver of resolvers) {
+    try {
+      const result = await resolver();
+      resolved.push(...(Array.isArray(result) ? result : result ? [result] : []));
+    } catch (e: any) {
+      logger.warn(`Platform URL resolver failed: ${e.message}`);
+    }
+  }
+
+  return Array.from(new Set([...resolved, ...urls].map(normalizeUrl).filter(url => url)));
+}
+
+export function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function extractUrls(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  if (value && typeof value === 'object') {
+    const { url, urls } = value as { url?: unknown; urls?: unknown };
+    return [...extractUrls(url ?? []), ...extractUrls(urls ?? [])];
+  }
+  return [];
+}
@@ -0,0 +1,158 @@
+/**
+ * GSN Errors Module
+ * Typed errors surfaced by the connector. Every failed platform call carries one
+ * of these as `PlatformFailure.cause`, or throws it when `throwOnError` is enabled.
+ */
+
+import { GSNErrorKind, PlatformFailure, TaskStatus } from './types';
+
+export class GSNError extends Error {
+  public readonly kind: GSNErrorKind;
+  /** HTTP status, when the platform answered */
+  public readonly status?: number;
+  /** Method and path of the call, e.g. `POST /api/tasks/claim` */
+  public readonly endpoint?: string;
+
+  constructor(kind: GSNErrorKind, message: string, options: { status?: number; endpoint?: string } = {}) {
+    super(message);
+    this.name = 'GSNError';
+    this.kind = kind;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * The platform could not be reached: connection failure, timeout, or an open circuit
+ */
+export class GSNNetworkError extends GSNError {
+  public readonly reason: 'unreachable' | 'timeout' | 'circuit-open';
+
+  constructor(message: string, reason: 'unreachable' | 'timeout' | 'circuit-open' = 'unreachable', endpoint?: string) {
+    super('network', message, { endpoint });
+    this.name = 'GSNNetworkError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * The API key is missing, invalid or not allowed to perform the call (HTTP 401/403)
+ */
+export class GSNAuthError extends GSNError {
+  constructor(message: string, status: number, endpoint?: string) {
+    super('auth', message, { status, endpoint });
+    this.name = 'GSNAuthError';
+  }
+}
+
+/**
+ * The call needs a higher tier than the agent has (e.g. Moltbook writes, webhooks)
+ */
+export class GSNTierError extends GSNError {
+  public readonly requiredTier?: string;
+  public readonly currentTier?: string;
+
+  constructor(message: string, options: { requiredTier?: string; currentTier?: string; endpoint?: string } = {}) {
+    super('tier-insufficient', message, { status: 403, endpoint: options.endpoint });
+    this.name = 'GSNTierError';
+    this.requiredTier = options.requiredTier;
+    this.currentTier = options.currentTier;
+  }
+}
+
+/**
+ * The platform is throttling the agent (HTTP 429)
+ */
+export class GSNRateLimitError extends GSNError {
+  /** Delay requested by the platform's Retry-After header */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, endpoint?: string) {
+    super('rate-limited', message, { status: 429, endpoint });
+    this.name = 'GSNRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The requested task, entry, agent or route does not exist (HTTP 404)
+ */
+export class GSNNotFoundError extends GSNError {
+  constructor(message: string, endpoint?: string) {
+    super('not-found', message, { status: 404, endpoint });
+    this.name = 'GSNNotFoundError';
+  }
+}
+
+/**
+ * A platform payload (or another document, e.g. a snapshot) did not match the shape the SDK expects
+ */
+export class GSNValidationError extends GSNError {
+  public readonly issues: string[];
+
+  constructor(issues: string[], endpoint?: string, subject: string = 'response') {
+    super('validation', `Invalid ${subject}${endpoint ? ` from ${endpoint}` : ''}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`, { endpoint });
+    this.name = 'GSNValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A task status change is not allowed by the lifecycle transition table
+ */
+export class GSNTaskTransitionError extends GSNError {
+  public readonly taskId: string;
+  public readonly from: TaskStatus;
+  public readonly to: TaskStatus;
+
+  constructor(taskId: string, from: TaskStatus, to: TaskStatus) {
+    super('invalid-transition', `Task ${taskId} cannot move from '${from}' to '${to}'`);
+    this.name = 'GSNTaskTransitionError';
+    this.taskId = taskId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * A task dependency refers to an unknown task or would create a cycle
+ */
+export class GSNDependencyError extends GSNError {
+  public readonly taskId: string;
+  public readonly dependencyId: string;
+
+  constructor(message: string, taskId: string, dependencyId: string) {
+    super('invalid-dependency', message);
+    this.name = 'GSNDependencyError';
+    this.taskId = taskId;
+    this.dependencyId = dependencyId;
+  }
+}
+
+/**
+ * A write was attempted after the module was sealed for shutdown
+ */
+export class GSNSealedError extends GSNError {
+  constructor(message: string) {
+    super('sealed', message);
+    this.name = 'GSNSealedError';
+  }
+}
+
+/**
+ * Check whether a value is a GSNError, optionally of a given kind
+ */
+export function isGSNError(error: unknown, kind?: GSNErrorKind): error is GSNError {
+  return error instanceof GSNError && (kind === undefined || error.kind === kind);
+}
+
+/**
+ * Convert any thrown value into a PlatformFailure
+ */
+export function toPlatformFailure(error: unknown): PlatformFailure {
+  const cause = error instanceof GSNError
+    ? error
+    : new GSNError('unknown', error instanceof Error ? error.message : String(error));
+  return { success: false, error: cause.message, kind: cause.kind, cause };
+}
@@ -0,0 +1,130 @@
+/**
+ * GSN Event Bus Module
+ * Typed publish/subscribe with wildcard topics, async listeners and per-listener error isolation
+ */
+
+import { GSNLogger } from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+
+/**
+ * Topics a subscription pattern covers: an exact topic, `prefix:*`, or `*` for everything
+ */
+export type TopicsMatching<M, P extends string> =
+  P extends '*' ? Extract<keyof M, string>
+    : P extends `${infer Prefix}:*` ? Extract<keyof M, `${Prefix}:${string}`>
+      : Extract<P, keyof M>;
+
+/**
+ * What a listener receives: the concrete topic, its payload and when it was published
+ */
+export type BusEvent<M, P extends string> = {
+  [K in TopicsMatching<M, P>]: { topic: K; payload: M[K]; timestamp: number };
+}[TopicsMatching<M, P>];
+
+export type BusListener<M, P extends string> = (event: BusEvent<M, P>) => void | Promise<void>;
+
+/**
+ * Subscription patterns accepted for an event map
+ */
+export type TopicPattern<M> = Extract<keyof M, string> | '*' | PrefixWildcard<Extract<keyof M, string>>;
+
+type PrefixWildcard<T extends string> = T extends `${infer Prefix}:${string}` ? `${Prefix}:*` : never;
+
+export interface EventBusOptions {
+  /** Receives listener failures (default: logged at error level) */
+  onListenerError?: (error: unknown, topic: string) => void;
+  logger?: GSNLogger;
+}
+
+interface Subscription<M> {
+  pattern: string;
+  /** Only ever called with events whose topic matches `pattern` */
+  listener: BusListener<M, '*'>;
+  once: boolean;
+}
+
+export class GSNEventBus<M extends object> {
+  private subscriptions: Array<Subscription<M>> = [];
+  private errorHandler?: (error: unknown, topic: string) => void;
+  private logger: GSNLogger;
+
+  constructor(options: EventBusOptions = {}) {
+    this.errorHandler = options.onListenerError;
+    this.logger = (options.logger || NOOP_LOGGER).child({ module: 'event-bus' });
+  }
+
+  /**
+   * Subscribe to a topic, a `prefix:*` family or `*`. Returns an unsubscribe function.
+   */
+  public on<P extends TopicPattern<M>>(pattern: P, listener: BusListener<M, P>): () => void {
+    return this.subscribe(pattern, listener as BusListener<M, '*'>, false);
+  }
+
+  /**
+   * Subscribe for the next matching event only
+   */
+  public once<P extends TopicPattern<M>>(pattern: P, listener: BusListener<M, P>): () => void {
+    return this.subscribe(pattern, listener as BusListener<M, '*'>, true);
+  }
+
+  /**
+   * Deliver an event to every matching listener. A failing listener never affects the others
+   * or the publisher; the returned promise resolves once all listeners have settled.
+   */
+  public emit<K extends Extract<keyof M, string>>(topic: K, payload: M[K]): Promise<void> {
+    const event = { topic, payload, timestamp: Date.now() } as BusEvent<M, '*'>;
+    const matching = this.subscriptions.filter(sub => matches(sub.pattern, topic));
+    this.subscriptions = this.subscriptions.filter(sub => !(sub.once && matching.includes(sub)));
+
+    const settled = matching.map(sub => {
+      try {
+        return Promise.resolve(sub.listener(event)).catch(error => this.reportError(error, topic));
+      } catch (error) {
+        this.reportError(error, topic);
+        return Promise.resolve();
+      }
+    });
+    return Promise.all(settled).then(() => undefined);
+  }
+
+  /**
+   * Number of active subscriptions, optionally only those whose pattern covers `topic`
+   */
+  public listenerCount(topic?: Extract<keyof M, string>): number {
+    return topic === undefined
+      ? this.subscriptions.length
+      : this.subscriptions.filter(sub => matches(sub.pattern, topic)).length;
+  }
+
+  /**
+   * Drop every subscription
+   */
+  public clear(): void {
+    this.subscriptions = [];
+  }
+
+  private subscribe(pattern: string, listener: BusListener<M, '*'>, once: boolean): () => void {
+    const subscription: Subscription<M> = { pattern, listener, once };
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter(sub => sub !== subscription);
+    };
+  }
+
+  private reportError(error: unknown, topic: string): void {
+    if (this.errorHandler) {
+      try {
+        this.errorHandler(error, topic);
+        return;
+      } catch {
+        // fall through to the default report
+      }
+    }
+    this.logger.error(`Listener for ${topic} failed`, { topic, error });
+  }
+}
+
+function matches(pattern: string, topic: string): boolean {
+  if (pattern === '*' || pattern === topic) return true;
+  return pattern.endsWith(':*') && topic.startsWith(pattern.slice(0, -1));
+}
@@ -4,7 +4,30 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { Insight, KnowledgeDistillationEvent, AgentIdentity, SharedVault } from '../types';
+import {
+  Insight,
+  KnowledgeDistillationEvent,
+  AgentIdentity,
+  SharedVault,
+  StorageAdapter,
+  GSNLogger,
+  EmbeddingFunction,
+  SearchOptions,
+  RankedResult,
+  QueryNode,
+  QueryFields,
+  Revision,
+  RevisionDiff,
+  MergeConflict,
+  ConflictResolution,
+} from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+import { GSNSealedError } from './gsn-errors';
+import { InsightsSnapshot, SnapshotImportMode } from './gsn-snapshot';
+import { GSNSearchIndex, SearchDocument } from './gsn-search-index';
+import { GSNQueryIndex } from './gsn-query';
+import { GSNRevisionHistory } from './gsn-revisions';
+import { MergeResult, compareClocks, compareVersions, findCommonAncestor, mergeConcurrent, tickClock } from './gsn-merge';
 
 export interface InsightOptions {
   sourceTaskId?: string;
@@ -14,14 +37,50 @@ export interface InsightOptions {
   metadata?: Record<string, unknown>;
 }
 
+export interface InsightsConfig {
+  /** Persist insights so they survive restarts (the tag index is rebuilt on load) */
+  storage?: StorageAdapter;
+  /** Embedding function for searchRanked(); without one ranking is BM25 only */
+  embed?: EmbeddingFunction;
+  /** Revisions kept per insight for diff and rollback; 0 keeps none (default: 20) */
+  maxRevisions?: number;
+  logger?: GSNLogger;
+}
+
 export class GSNInsights {
   private agentIdentity: AgentIdentity;
   private insights: Map<string, Insight> = new Map();
   private knowledgeBase: Map<string, string[]> = new Map(); // tag -> insight IDs
   private eventListeners: ((event: KnowledgeDistillationEvent) => void)[] = [];
+  private conflictListeners: ((conflict: MergeConflict<Insight>) => void)[] = [];
+  private conflicts: Map<string, MergeConflict<Insight>> = new Map(); // insight ID -> unresolved conflict
+  private storage?: StorageAdapter;
+  private logger: GSNLogger;
+  private sealed: boolean = false;
+  private searchIndex: GSNSearchIndex;
+  private queryIndex: GSNQueryIndex = new GSNQueryIndex();
+  private revisions: GSNRevisionHistory<Insight>;
 
-  constructor(agentIdentity: AgentIdentity) {
+  constructor(agentIdentity: AgentIdentity, config: InsightsConfig = {}) {
     this.agentIdentity = agentIdentity;
+    this.storage = config.storage;
+    this.logger = (config.logger || NOOP_LOGGER).child({ module: 'insights', agentId: agentIdentity.id });
+    this.searchIndex = new GSNSearchIndex({ embed: config.embed, logger: this.logger });
+    this.revisions = new GSNRevisionHistory({
+      collection: 'insight-revisions',
+      storage: this.storage,
+      maxRevisions: config.maxRevisions,
+      ignoreFields: ['lastUpdated', 'clock'],
+    });
+    if (this.storage) {
+      this.insights = this.storage.load<Insight>('insights');
+      this.conflicts = this.storage.load<MergeConflict<Insight>>('insight-conflicts');
+      this.insights.forEach(insight => {
+        this.indexInsight(insight);
+        this.searchIndex.upsert(searchDocument(insight));
+        this.queryIndex.upsert(insight.id, queryFields(insight));
+      });
+    }
   }
 
   /**
@@ -32,6 +91,7 @@ export class GSNInsights {
     content: string,
     options: InsightOptions = {}
   ): Insight {
+    this.assertWritable();
     const insight: Insight = {
       id: uuidv4(),
       agentId: this.agentIdentity.id,
@@ -44,18 +104,16 @@ export class GSNInsights {
       createdAt: Date.now(),
       lastUpdated: Date.now(),
       metadata: options.metadata,
+      revision: 1,
+      clock: { [this.agentIdentity.id]: 1 },
     };
 
     this.insights.set(insight.id, insight);
-
-    // Update knowledge base index
-    insight.tags.forEach(tag => {
-      const ids = this.knowledgeBase.get(tag) || [];
-      if (!ids.includes(insight.id)) {
-        ids.push(insight.id);
-        this.knowledgeBase.set(tag, ids);
-      }
-    });
+    this.revisions.record(insight, this.agentIdentity.id, insight.createdAt);
+    this.searchIndex.upsert(searchDocument(insight));
+    this.queryIndex.upsert(insight.id, queryFields(insight));
+    this.storage?.put('insights', insight.id, insight);
+    this.indexInsight(insight);
 
     this.emitInsightEvent({ type: 'insight-generated', insight, timestamp: Date.now() });
 
@@ -66,6 +124,7 @@ export class GSNInsights {
    * Update an existing insight
    */
   public updateInsight(id: string, updates: Partial<Insight>): Insight | null {
+    this.assertWritable();
     const existing = this.insights.get(id);
     if (!existing) {
       return null;
@@ -75,9 +134,12 @@ export class GSNInsights {
       ...existing,
       ...updates,
       lastUpdated: Date.now(),
+      revision: (existing.revision ?? 0) + 1,
+      clock: tickClock(existing.clock, this.agentIdentity.id),
     };
 
-    this.insights.set(id, updated);
+    this.replaceInsight(updated);
+    this.revisions.record(updated, this.agentIdentity.id, updated.lastUpdated);
     this.emitInsightEvent({ type: 'knowledge-updated', insight: updated, timestamp: Date.now() });
 
     return updated;
@@ -87,24 +149,143 @@ export class GSNInsights {
    * Delete an insight
    */
   public deleteInsight(id: string): boolean {
+    this.assertWritable();
     const insight = this.insights.get(id);
     if (!insight) {
       return false;
     }
 
-    // Remove from knowledge base index
-    insight.tags.forEach(tag => {
-      const ids = this.knowledgeBase.get(tag) || [];
-      const filtered = ids.filter(x => x !== id);
-      if (filtered.length > 0) {
-        this.knowledgeBase.set(tag, filtered);
-      } else {
-        this.knowledgeBase.delete(tag);
+    this.unindexInsight(insight);
+    this.insights.delete(id);
+    this.searchIndex.remove(id);
+    this.queryIndex.remove(id);
+    this.revisions.remove(id);
+    this.storage?.delete('insights', id);
+    if (this.conflicts.delete(id)) {
+      this.storage?.delete('insight-conflicts', id);
+    }
+    return true;
+  }
+
+  /**
+   * Apply insights pulled from the platform, comparing vector clocks with the local copy:
+   * older remote versions are ignored, newer ones replace the local copy, and concurrent edits
+   * are merged (tags unioned, metadata and confidence last-writer-wins) as a new local revision.
+   * Concurrent edits with a different title or content become conflicts instead (see onConflict()).
+   * Without clocks the more recently updated copy wins. Returns the number of insights applied.
+   */
+  public applyRemoteInsights(insights: Insight[]): number {
+    let applied = 0;
+    insights.forEach(insight => {
+      if (!insight || !insight.id) {
+        return;
+      }
+      const remote = { ...insight, tags: insight.tags || [] };
+      const local = this.insights.get(insight.id);
+
+      if (!local || !local.clock || !remote.clock) {
+        if (!local || remote.lastUpdated > local.lastUpdated) {
+          this.storeRemote(remote);
+          applied++;
+        }
+        return;
+      }
+
+      switch (compareClocks(remote.clock, local.clock)) {
+        case 'after':
+          this.storeRemote(remote);
+          applied++;
+          break;
+        case 'concurrent': {
+          const { merged, conflicts } = this.mergeCopies(local, remote);
+          if (conflicts.length > 0) {
+            this.raiseConflict({ id: insight.id, local, remote, fields: conflicts, detectedAt: Date.now() });
+          } else {
+            this.commitMerge(merged);
+            applied++;
+          }
+          break;
+        }
       }
     });
+    return applied;
+  }
 
-    this.insights.delete(id);
-    return true;
+  /**
+   * Unresolved conflicts between local insights and concurrently edited pulled copies
+   */
+  public getConflicts(): MergeConflict<Insight>[] {
+    return Array.from(this.conflicts.values());
+  }
+
+  /**
+   * Settle a conflict: tags and metadata are merged, title and content come from the chosen side
+   * (or the given fields), and the result is saved as a new local revision that supersedes both.
+   * Returns null if there is no conflict for the insight or it has since been deleted.
+   */
+  public resolveInsightConflict(id: string, resolution: ConflictResolution<Insight>): Insight | null {
+    this.assertWritable();
+    const conflict = this.conflicts.get(id);
+    const local = this.insights.get(id);
+    if (!conflict) {
+      return null;
+    }
+    this.conflicts.delete(id);
+    this.storage?.delete('insight-conflicts', id);
+    if (!local) {
+      return null;
+    }
+
+    const { merged } = this.mergeCopies(local, conflict.remote);
+    const chosen = resolution === 'local' ? {}
+      : resolution === 'remote' ? { title: conflict.remote.title, content: conflict.remote.content }
+        : resolution;
+    return this.commitMerge({
+      ...merged,
+      ...chosen,
+      id,
+      clock: tickClock(merged.clock, this.agentIdentity.id),
+    });
+  }
+
+  /**
+   * Register listener for merge conflicts found while applying pulled insights
+   */
+  public onConflict(listener: (conflict: MergeConflict<Insight>) => void): () => void {
+    this.conflictListeners.push(listener);
+    return () => {
+      const index = this.conflictListeners.indexOf(listener);
+      if (index > -1) {
+        this.conflictListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Revisions of an insight still in history, oldest first (the last one is the current state)
+   */
+  public getInsightRevisions(id: string): Revision<Insight>[] {
+    return this.revisions.list(id);
+  }
+
+  /**
+   * Fields that changed between two revisions of an insight, or null if either is no longer in history
+   */
+  public diffInsightRevisions(id: string, from: number, to: number): RevisionDiff | null {
+    return this.revisions.diff(id, from, to);
+  }
+
+  /**
+   * Restore an insight's fields from an earlier revision as a new revision.
+   * Returns null if the insight or revision is unknown.
+   */
+  public rollbackInsight(id: string, revision: number): Insight | null {
+    const target = this.revisions.get(id, revision);
+    if (!target || !this.insights.has(id)) {
+      return null;
+    }
+    const { revision: _revision, lastUpdated: _lastUpdated, ...fields } = target.record;
+    return this.updateInsight(id, fields);
   }
 
   /**
@@ -131,6 +312,15 @@ export class GSNInsights {
       .filter((i): i is Insight => i !== undefined);
   }
 
+  /**
+   * Insights matching a query expression, oldest first, e.g. `perf:* AND confidence>=0.8 -stale`
+   */
+  public query(expression: string | QueryNode): Insight[] {
+    return this.queryIndex.query(expression)
+      .map(id => this.insights.get(id))
+      .filter((i): i is Insight => i !== undefined);
+  }
+
   /**
    * Get insights by agent ID
    */
@@ -151,6 +341,16 @@ export class GSNInsights {
     );
   }
 
+  /**
+   * Ranked search over insight titles and content (BM25, plus embedding similarity when configured)
+   */
+  public async searchRanked(query: string, options: SearchOptions = {}): Promise<RankedResult<Insight>[]> {
+    const hits = await this.searchIndex.search(query, options);
+    return hits
+      .filter(hit => this.insights.has(hit.id))
+      .map(hit => ({ item: this.insights.get(hit.id)!, score: hit.score, explanation: hit.explanation }));
+  }
+
   /**
    * Find patterns across insights
    */
@@ -200,30 +400,208 @@ export class GSNInsights {
     };
   }
 
+  /**
+   * Merge a concurrently edited copy into the local insight against their last common revision
+   */
+  private mergeCopies(local: Insight, remote: Insight): MergeResult<Insight> {
+    const history = this.revisions.list(local.id).map(r => r.record);
+    return mergeConcurrent(local, remote, ['title', 'content'], i => i.lastUpdated, findCommonAncestor(history, local, remote));
+  }
+
+  /**
+   * Store a pulled or merged insight, recording its revision and clearing any open conflict
+   */
+  private storeRemote(remote: Insight): void {
+    this.replaceInsight(remote);
+    if (remote.revision !== undefined) {
+      this.revisions.record(remote, remote.agentId, remote.lastUpdated);
+    }
+    if (this.conflicts.delete(remote.id)) {
+      this.storage?.delete('insight-conflicts', remote.id);
+    }
+  }
+
+  /**
+   * Save a merge result as a new local revision. Automatic merges keep the merged clock
+   * untouched so every agent merging the same pair converges; resolutions tick it first.
+   */
+  private commitMerge(merged: Insight): Insight {
+    const now = Date.now();
+    const insight: Insight = {
+      ...merged,
+      lastUpdated: now,
+      revision: (merged.revision ?? 0) + 1,
+    };
+    this.replaceInsight(insight);
+    this.revisions.record(insight, this.agentIdentity.id, now);
+    this.emitInsightEvent({ type: 'knowledge-updated', insight, timestamp: now });
+    return insight;
+  }
+
+  /**
+   * Put an insight in place of its previous version, keeping every index current
+   */
+  private replaceInsight(insight: Insight): void {
+    const previous = this.insights.get(insight.id);
+    if (previous) {
+      this.unindexInsight(previous);
+    }
+    this.insights.set(insight.id, insight);
+    this.searchIndex.upsert(searchDocument(insight));
+    this.queryIndex.upsert(insight.id, queryFields(insight));
+    this.storage?.put('insights', insight.id, insight);
+    this.indexInsight(insight);
+  }
+
+  private raiseConflict(conflict: MergeConflict<Insight>): void {
+    const known = this.conflicts.get(conflict.id);
+    if (known && compareClocks(known.remote.clock, conflict.remote.clock) === 'equal') {
+      return;
+    }
+    this.conflicts.set(conflict.id, conflict);
+    this.storage?.put('insight-conflicts', conflict.id, conflict);
+    this.logger.warn('Concurrent insight edits conflict', { insightId: conflict.id, fields: conflict.fields });
+    this.conflictListeners.forEach(listener => {
+      try {
+        listener(conflict);
+      } catch (error) {
+        this.logger.error('Error in conflict listener', { error });
+      }
+    });
+  }
+
+  /**
+   * Remove an insight from the tag index
+   */
+  private unindexInsight(insight: Insight): void {
+    insight.tags.forEach(tag => {
+      const ids = this.knowledgeBase.get(tag) || [];
+      const filtered = ids.filter(x => x !== insight.id);
+      if (filtered.length > 0) {
+        this.knowledgeBase.set(tag, filtered);
+      } else {
+        this.knowledgeBase.delete(tag);
+      }
+    });
+  }
+
+  /**
+   * Add an insight to the knowledge base tag index
+   */
+  private indexInsight(insight: Insight): void {
+    insight.tags.forEach(tag => {
+      const ids = this.knowledgeBase.get(tag) || [];
+      if (!ids.includes(insight.id)) {
+        ids.push(insight.id);
+        this.knowledgeBase.set(tag, ids);
+      }
+    });
+  }
+
   /**
    * Emit insight event to all listeners
    */
   private emitInsightEvent(event: KnowledgeDistillationEvent): void {
-    console.log(`[GSN-Insights] Emitting insight event: ${event.type}`, {
-      insightId: event.insight.id,
-      timestamp: event.timestamp,
-    });
+    this.logger.debug(`Emitting insight event: ${event.type}`, { insightId: event.insight.id });
 
     this.eventListeners.forEach(listener => {
       try {
         listener(event);
       } catch (error) {
-        console.error('[GSN-Insights] Error in event listener:', error);
+        this.logger.error('Error in event listener', { insightId: event.insight.id, error });
       }
     });
   }
 
   /**
-   * Clean up resources
+   * Insights and the tag index, for GSNConnector.exportSnapshot()
+   */
+  public exportState(): InsightsSnapshot {
+    const tagIndex: Record<string, string[]> = {};
+    this.knowledgeBase.forEach((ids, tag) => { tagIndex[tag] = [...ids]; });
+    return { insights: this.getAllInsights(), tagIndex };
+  }
+
+  /**
+   * Load insights from a snapshot. 'merge' keeps the newer copy of each insight (by vector clock,
+   * then revision, then update time) and merges concurrent edits like a sync pull would.
+   * Index entries pointing at unknown insights are dropped.
+   */
+  public importState(state: InsightsSnapshot, mode: SnapshotImportMode): void {
+    if (mode === 'replace') {
+      this.insights.clear();
+      this.searchIndex.clear();
+      this.queryIndex.clear();
+      this.revisions.clear(true);
+      this.conflicts.clear();
+      this.storage?.clear('insight-conflicts');
+      this.knowledgeBase.clear();
+      this.storage?.clear('insights');
+    }
+
+    state.insights.forEach(insight => {
+      const existing = this.insights.get(insight.id);
+      switch (existing ? compareVersions(insight, existing, i => i.lastUpdated) : 'after') {
+        case 'after':
+          this.storeRemote(insight);
+          break;
+        case 'concurrent': {
+          const { merged, conflicts } = this.mergeCopies(existing!, insight);
+          if (conflicts.length > 0) {
+            this.raiseConflict({ id: insight.id, local: existing!, remote: insight, fields: conflicts, detectedAt: Date.now() });
+          } else {
+            this.commitMerge(merged);
+          }
+          break;
+        }
+      }
+    });
+
+    Object.entries(state.tagIndex).forEach(([tag, ids]) => {
+      const indexed = this.knowledgeBase.get(tag) || [];
+      ids.filter(id => this.insights.has(id) && !indexed.includes(id)).forEach(id => indexed.push(id));
+      if (indexed.length > 0) {
+        this.knowledgeBase.set(tag, indexed);
+      }
+    });
+  }
+
+  /**
+   * Reject further insight writes
+   */
+  public seal(): void {
+    this.sealed = true;
+  }
+
+  public isSealed(): boolean {
+    return this.sealed;
+  }
+
+  private assertWritable(): void {
+    if (this.sealed) {
+      throw new GSNSealedError('Insights are sealed for shutdown; insights can no longer be changed');
+    }
+  }
+
+  /**
+   * Clean up resources (persisted state in storage is kept)
    */
   public dispose(): void {
     this.insights.clear();
+    this.searchIndex.clear();
+    this.queryIndex.clear();
+    this.revisions.clear();
+    this.conflicts.clear();
     this.knowledgeBase.clear();
     this.eventListeners.length = 0;
+    this.conflictListeners.length = 0;
   }
 }
+
+function searchDocument(insight: Insight): SearchDocument {
+  return { id: insight.id, text: `${insight.title}\n${insight.content}`, tags: insight.tags };
+}
+
+function queryFields(insight: Insight): QueryFields {
+  return { tags: insight.tags, agentId: insight.agentId, createdAt: insight.createdAt, confidence: insight.confidence };
+}
@@ -0,0 +1,83 @@
+/**
+ * GSN Logger Module
+ * No-op and JSON-lines implementations of the GSNLogger interface
+ */
+
+import { GSNLogger, LogFields, LogLevel } from './types';
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Discards everything. The default when no logger is configured.
+ */
+export class NoopLogger implements GSNLogger {
+  public debug(): void {}
+  public info(): void {}
+  public warn(): void {}
+  public error(): void {}
+  public child(): GSNLogger {
+    return this;
+  }
+}
+
+export const NOOP_LOGGER: GSNLogger = new NoopLogger();
+
+export interface JsonLoggerOptions {
+  /** Lowest level written (default: info) */
+  level?: LogLevel;
+  /** Fields added to every line */
+  fields?: LogFields;
+  /** Line sink (default: stdout for debug/info, stderr for warn/error) */
+  write?: (line: string, level: LogLevel) => void;
+}
+
+/**
+ * Writes one JSON object per line: `{ time, level, msg, ...fields }`
+ */
+export class JsonLogger implements GSNLogger {
+  private level: LogLevel;
+  private fields: LogFields;
+  private write: (line: string, level: LogLevel) => void;
+
+  constructor(options: JsonLoggerOptions = {}) {
+    this.level = options.level || 'info';
+    this.fields = options.fields || {};
+    this.write = options.write || defaultWrite;
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  public child(fields: LogFields): GSNLogger {
+    return new JsonLogger({ level: this.level, fields: { ...this.fields, ...fields }, write: this.write });
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_RANK[level] < LEVEL_RANK[this.level]) {
+      return;
+    }
+    const entry = { time: new Date().toISOString(), level, msg: message, ...this.fields, ...fields };
+    this.write(JSON.stringify(entry, serializeErrors), level);
+  }
+}
+
+function defaultWrite(line: string, level: LogLevel): void {
+  (LEVEL_RANK[level] >= LEVEL_RANK.warn ? process.stderr : process.stdout).write(line + '\n');
+}
+
+function serializeErrors(_key: string, value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message } : value;
+}
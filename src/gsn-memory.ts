@@ -7,9 +7,29 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   ContextSnippet,
   MemorySyncEvent,
+  MemorySyncDelta,
+  MemorySyncTransport,
   AgentIdentity,
   SharedVault,
-} from '../types';
+  StorageAdapter,
+  GSNLogger,
+  EmbeddingFunction,
+  SearchOptions,
+  RankedResult,
+  QueryNode,
+  RetentionPolicy,
+  Revision,
+  RevisionDiff,
+  MergeConflict,
+  ConflictResolution,
+} from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+import { GSNSealedError } from './gsn-errors';
+import { MemorySnapshot, SnapshotImportMode } from './gsn-snapshot';
+import { GSNSearchIndex } from './gsn-search-index';
+import { GSNQueryIndex } from './gsn-query';
+import { GSNRevisionHistory } from './gsn-revisions';
+import { MergeResult, compareClocks, compareVersions, findCommonAncestor, mergeConcurrent, tickClock } from './gsn-merge';
 
 export interface MemoryOptions {
   agentId?: string;
@@ -17,6 +37,29 @@ export interface MemoryOptions {
   syncWithVault?: boolean;
   vaultUrl?: string;
   autoSync?: boolean;
+  /** Transport used by syncWithSharedVault() to push deltas and pull remote snippets */
+  transport?: MemorySyncTransport;
+  /** Persist snippets and unsynced changes so they survive restarts */
+  storage?: StorageAdapter;
+  /** Embedding function for searchRanked(); without one ranking is BM25 only */
+  embed?: EmbeddingFunction;
+  /** TTL, size caps and eviction (default: unbounded) */
+  retention?: RetentionPolicy;
+  /** Revisions kept per snippet for diff and rollback; 0 keeps none (default: 20) */
+  maxRevisions?: number;
+  logger?: GSNLogger;
+}
+
+export interface SnippetOptions {
+  /** Expire the snippet this many ms from now (overrides the retention policy's default TTL) */
+  ttlMs?: number;
+  /** Never expire or evict the snippet */
+  pinned?: boolean;
+}
+
+interface PendingChange {
+  sequence: number;
+  event: MemorySyncEvent;
 }
 
 export class GSNMemory {
@@ -26,6 +69,22 @@ export class GSNMemory {
   private vaultUrl?: string;
   private autoSync: boolean;
   private syncInterval?: NodeJS.Timeout;
+  private eventListeners: ((event: MemorySyncEvent) => void)[] = [];
+  private conflictListeners: ((conflict: MergeConflict<ContextSnippet>) => void)[] = [];
+  private conflicts: Map<string, MergeConflict<ContextSnippet>> = new Map(); // snippet ID -> unresolved conflict
+  private logger: GSNLogger;
+  private transport?: MemorySyncTransport;
+  private pendingChanges: Map<string, PendingChange> = new Map(); // snippet ID -> latest unsynced change
+  private changeSequence: number = 0;
+  private lastAckedSync: number | null = null;
+  private storage?: StorageAdapter;
+  private sealed: boolean = false;
+  private searchIndex: GSNSearchIndex;
+  private queryIndex: GSNQueryIndex = new GSNQueryIndex();
+  private retention: RetentionPolicy;
+  private accessOrder: Map<string, number> = new Map(); // snippet ID -> last read/write sequence, for 'lru'
+  private accessSequence: number = 0;
+  private revisions: GSNRevisionHistory<ContextSnippet>;
 
   constructor(options: MemoryOptions = {}) {
     this.agentIdentity = {
@@ -37,6 +96,18 @@ export class GSNMemory {
     this.syncWithVault = options.syncWithVault ?? true;
     this.vaultUrl = options.vaultUrl;
     this.autoSync = options.autoSync ?? true;
+    this.transport = options.transport;
+    this.storage = options.storage;
+    this.retention = options.retention || {};
+    this.logger = (options.logger || NOOP_LOGGER).child({ module: 'memory', agentId: this.agentIdentity.id });
+    this.searchIndex = new GSNSearchIndex({ embed: options.embed, logger: this.logger });
+    this.revisions = new GSNRevisionHistory({
+      collection: 'snippet-revisions',
+      storage: this.storage,
+      maxRevisions: options.maxRevisions,
+      ignoreFields: ['updatedAt', 'clock'],
+    });
+    this.restoreFromStorage();
   }
 
   /**
@@ -49,18 +120,34 @@ export class GSNMemory {
   /**
    * Add a new context snippet
    */
-  public addSnippet(content: string, tags: string[] = [], metadata?: Record<string, unknown>): ContextSnippet {
+  public addSnippet(
+    content: string,
+    tags: string[] = [],
+    metadata?: Record<string, unknown>,
+    options: SnippetOptions = {}
+  ): ContextSnippet {
+    this.assertWritable();
+    const now = Date.now();
+    const ttlMs = options.ttlMs ?? this.retention.defaultTtlMs;
     const snippet: ContextSnippet = {
       id: uuidv4(),
       agentId: this.agentIdentity.id,
       content,
-      timestamp: Date.now(),
+      timestamp: now,
       tags,
       metadata,
+      revision: 1,
+      clock: { [this.agentIdentity.id]: 1 },
     };
+    if (ttlMs !== undefined) snippet.expiresAt = now + ttlMs;
+    if (options.pinned) snippet.pinned = true;
 
     this.contextSnippets.set(snippet.id, snippet);
-    this.emitSyncEvent({ type: 'add', snippet, timestamp: Date.now() });
+    this.indexSnippet(snippet);
+    this.revisions.record(snippet, this.agentIdentity.id, now);
+    this.storage?.put('snippets', snippet.id, snippet);
+    this.emitSyncEvent({ type: 'add', snippet, timestamp: now });
+    this.enforceRetention();
 
     return snippet;
   }
@@ -69,6 +156,7 @@ export class GSNMemory {
    * Update an existing context snippet
    */
   public updateSnippet(id: string, updates: Partial<ContextSnippet>): ContextSnippet | null {
+    this.assertWritable();
     const existing = this.contextSnippets.get(id);
     if (!existing) {
       return null;
@@ -78,30 +166,127 @@ export class GSNMemory {
       ...existing,
       ...updates,
       updatedAt: Date.now(),
+      revision: (existing.revision ?? 0) + 1,
+      clock: tickClock(existing.clock, this.agentIdentity.id),
     };
 
     this.contextSnippets.set(id, updated);
+    this.indexSnippet(updated);
+    this.revisions.record(updated, this.agentIdentity.id, updated.updatedAt);
+    this.storage?.put('snippets', id, updated);
     this.emitSyncEvent({ type: 'update', snippet: updated, timestamp: Date.now() });
+    this.enforceRetention();
 
     return updated;
   }
 
+  /**
+   * Revisions of a snippet still in history, oldest first (the last one is the current state)
+   */
+  public getSnippetRevisions(id: string): Revision<ContextSnippet>[] {
+    return this.revisions.list(id);
+  }
+
+  /**
+   * Fields that changed between two revisions of a snippet, or null if either is no longer in history
+   */
+  public diffSnippetRevisions(id: string, from: number, to: number): RevisionDiff | null {
+    return this.revisions.diff(id, from, to);
+  }
+
+  /**
+   * Restore a snippet's fields from an earlier revision. The rollback is itself a new revision,
+   * synced like any other update. Returns null if the snippet or revision is unknown.
+   */
+  public rollbackSnippet(id: string, revision: number): ContextSnippet | null {
+    const target = this.revisions.get(id, revision);
+    if (!target || !this.contextSnippets.has(id)) {
+      return null;
+    }
+    const { revision: _revision, updatedAt: _updatedAt, ...fields } = target.record;
+    return this.updateSnippet(id, fields);
+  }
+
+  /**
+   * Protect a snippet from expiry and eviction
+   */
+  public pinSnippet(id: string): ContextSnippet | null {
+    return this.updateSnippet(id, { pinned: true });
+  }
+
+  /**
+   * Make a snippet subject to retention again
+   */
+  public unpinSnippet(id: string): ContextSnippet | null {
+    return this.updateSnippet(id, { pinned: false });
+  }
+
   /**
    * Delete a context snippet
    */
   public deleteSnippet(id: string): boolean {
-    if (this.contextSnippets.delete(id)) {
-      this.emitSyncEvent({ type: 'delete', snippet: { id, agentId: this.agentIdentity.id, content: '', timestamp: Date.now(), tags: [] } as ContextSnippet, timestamp: Date.now() });
-      return true;
+    this.assertWritable();
+    return this.removeSnippet(id);
+  }
+
+  /**
+   * Delete expired snippets, then evict unpinned snippets by the configured strategy until
+   * memory is within its caps. Runs after every local write, before each sync and on heartbeats.
+   * Only this agent's snippets are deleted from the vault; other agents' are just dropped locally.
+   * Returns the IDs removed.
+   */
+  public enforceRetention(now: number = Date.now()): string[] {
+    if (this.sealed) {
+      return [];
+    }
+
+    const expired = Array.from(this.contextSnippets.values())
+      .filter(snippet => !snippet.pinned && snippet.expiresAt !== undefined && snippet.expiresAt <= now)
+      .map(snippet => snippet.id);
+    expired.forEach(id => this.removeSnippet(id, this.isOwn(id)));
+
+    const maxSnippets = this.retention.maxSnippets ?? Infinity;
+    const maxBytes = this.retention.maxBytes ?? Infinity;
+    let { snippets: count, bytes } = this.getUsage();
+    const evicted: string[] = [];
+    if (count > maxSnippets || bytes > maxBytes) {
+      const candidates = Array.from(this.contextSnippets.values())
+        .filter(snippet => !snippet.pinned)
+        .sort((a, b) => this.evictionRank(a) - this.evictionRank(b) || a.timestamp - b.timestamp);
+      for (const snippet of candidates) {
+        if (count <= maxSnippets && bytes <= maxBytes) break;
+        this.removeSnippet(snippet.id, this.isOwn(snippet.id));
+        count--;
+        bytes -= contentBytes(snippet);
+        evicted.push(snippet.id);
+      }
+      if (count > maxSnippets || bytes > maxBytes) {
+        this.logger.warn('Pinned snippets alone exceed the retention caps', { snippets: count, bytes });
+      }
+    }
+
+    if (expired.length > 0 || evicted.length > 0) {
+      this.logger.debug('Retention removed snippets', { expired: expired.length, evicted: evicted.length });
     }
-    return false;
+    return [...expired, ...evicted];
+  }
+
+  /**
+   * Snippet count and total content size in UTF-8 bytes
+   */
+  public getUsage(): { snippets: number; bytes: number } {
+    let bytes = 0;
+    this.contextSnippets.forEach(snippet => { bytes += contentBytes(snippet); });
+    return { snippets: this.contextSnippets.size, bytes };
   }
 
   /**
    * Get a context snippet by ID
    */
   public getSnippet(id: string): ContextSnippet | undefined {
-    return this.contextSnippets.get(id);
+    const snippet = this.contextSnippets.get(id);
+    if (snippet) this.touch(id);
+    return snippet;
   }
 
   /**
@@ -115,9 +300,19 @@ export class GSNMemory {
    * Get snippets by tag
    */
   public getSnippetsByTags(tags: string[]): ContextSnippet[] {
-    return Array.from(this.contextSnippets.values()).filter(snippet =>
+    return this.markAccessed(Array.from(this.contextSnippets.values()).filter(snippet =>
       tags.some(tag => snippet.tags.includes(tag))
-    );
+    ));
+  }
+
+  /**
+   * Snippets matching a query expression, oldest first, e.g.
+   * `(postgres OR mysql) AND lang:* -deprecated timestamp>-7d agentId:alice`
+   */
+  public query(expression: string | QueryNode): ContextSnippet[] {
+    return this.markAccessed(this.queryIndex.query(expression)
+      .map(id => this.contextSnippets.get(id))
+      .filter((s): s is ContextSnippet => s !== undefined));
   }
 
   /**
@@ -134,9 +329,19 @@ export class GSNMemory {
    */
   public searchSnippets(query: string): ContextSnippet[] {
     const lowerQuery = query.toLowerCase();
-    return Array.from(this.contextSnippets.values()).filter(snippet =>
+    return this.markAccessed(Array.from(this.contextSnippets.values()).filter(snippet =>
       snippet.content.toLowerCase().includes(lowerQuery)
-    );
+    ));
+  }
+
+  /**
+   * Ranked search over snippet content (BM25, plus embedding similarity when configured).
+   * Unlike searchSnippets(), matches stemmed words and word prefixes rather than one substring.
+   */
+  public async searchRanked(query: string, options: SearchOptions = {}): Promise<RankedResult<ContextSnippet>[]> {
+    const hits = (await this.searchIndex.search(query, options)).filter(hit => this.contextSnippets.has(hit.id));
+    hits.forEach(hit => this.touch(hit.id));
+    return hits.map(hit => ({ item: this.contextSnippets.get(hit.id)!, score: hit.score, explanation: hit.explanation }));
   }
 
   /**
@@ -152,16 +357,179 @@ export class GSNMemory {
   }
 
   /**
-   * Synchronize with shared vault (placeholder for network sync)
+   * Set the transport used to push deltas to the shared vault
    */
-  public async syncWithSharedVault(): Promise<void> {
-    if (!this.syncWithVault || !this.vaultUrl) {
-      return;
+  public setSyncTransport(transport: MemorySyncTransport | undefined): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get unsynced changes, one per snippet (latest change wins)
+   */
+  public getPendingChanges(): MemorySyncEvent[] {
+    return Array.from(this.pendingChanges.values()).map(change => change.event);
+  }
+
+  /**
+   * Build the delta of snippet changes since the last acknowledged sync
+   */
+  public buildSyncDelta(): MemorySyncDelta {
+    const upserts: ContextSnippet[] = [];
+    const deletes: string[] = [];
+    let sequence = 0;
+
+    this.pendingChanges.forEach(change => {
+      if (change.event.type === 'delete') {
+        deletes.push(change.event.snippet.id);
+      } else {
+        upserts.push(change.event.snippet);
+      }
+      sequence = Math.max(sequence, change.sequence);
+    });
+
+    return { upserts, deletes, sequence, since: this.lastAckedSync };
+  }
+
+  /**
+   * Mark a pushed delta as accepted by the vault.
+   * Changes made after the delta was built, and those the vault `rejected`, are kept for the next sync.
+   */
+  public acknowledgeSync(delta: MemorySyncDelta, rejected: string[] = []): void {
+    this.pendingChanges.forEach((change, id) => {
+      if (change.sequence <= delta.sequence && !rejected.includes(id)) {
+        this.pendingChanges.delete(id);
+        this.storage?.delete('snippet-changes', id);
+      }
+    });
+    this.lastAckedSync = Date.now();
+    this.storage?.put('memory-sync', 'lastAckedSync', this.lastAckedSync);
+  }
+
+  /**
+   * Get the time of the last acknowledged sync
+   */
+  public getLastSyncTime(): number | null {
+    return this.lastAckedSync;
+  }
+
+  /**
+   * Apply snippets pulled from the shared vault, comparing vector clocks with the local copy:
+   * older remote versions are ignored, newer ones replace the local copy, and concurrent edits
+   * are merged (tags unioned, metadata and other fields last-writer-wins) and queued for the next
+   * push. Concurrent edits with different content become conflicts instead (see onConflict()).
+   * Without clocks, snippets with unsynced local changes are skipped so local edits are not lost.
+   * Returns the number of snippets applied.
+   */
+  public applyRemoteSnippets(snippets: ContextSnippet[]): number {
+    let applied = 0;
+    snippets.forEach(snippet => {
+      if (!snippet || !snippet.id) {
+        return;
+      }
+      const remote = { ...snippet, tags: snippet.tags || [] };
+      const local = this.contextSnippets.get(snippet.id);
+
+      if (!local || !local.clock || !remote.clock) {
+        if (this.pendingChanges.has(snippet.id)) {
+          return;
+        }
+        this.storeRemote(remote);
+        applied++;
+        return;
+      }
+
+      switch (compareClocks(remote.clock, local.clock)) {
+        case 'after':
+          // The remote copy already includes every local edit
+          this.pendingChanges.delete(snippet.id);
+          this.storage?.delete('snippet-changes', snippet.id);
+          this.storeRemote(remote);
+          applied++;
+          break;
+        case 'concurrent': {
+          const { merged, conflicts } = this.mergeCopies(local, remote);
+          if (conflicts.length > 0) {
+            this.raiseConflict({ id: snippet.id, local, remote, fields: conflicts, detectedAt: Date.now() });
+          } else {
+            this.commitMerge(merged);
+            applied++;
+          }
+          break;
+        }
+      }
+    });
+    if (applied > 0) {
+      this.enforceRetention();
+    }
+    return applied;
+  }
+
+  /**
+   * Unresolved conflicts between local snippets and concurrently edited pulled copies
+   */
+  public getConflicts(): MergeConflict<ContextSnippet>[] {
+    return Array.from(this.conflicts.values());
+  }
+
+  /**
+   * Settle a conflict: tags and metadata are merged, content comes from the chosen side
+   * (or the given fields), and the result is saved as a new local revision that supersedes both.
+   * Returns null if there is no conflict for the snippet or it has since been deleted.
+   */
+  public resolveSnippetConflict(id: string, resolution: ConflictResolution<ContextSnippet>): ContextSnippet | null {
+    this.assertWritable();
+    const conflict = this.conflicts.get(id);
+    const local = this.contextSnippets.get(id);
+    if (!conflict) {
+      return null;
+    }
+    this.conflicts.delete(id);
+    this.storage?.delete('snippet-conflicts', id);
+    if (!local) {
+      return null;
     }
 
-    // TODO: Implement actual vault synchronization
-    console.log(`[GSN-Memory] Syncing with vault at ${this.vaultUrl}`);
-    // In real implementation, this would make network calls to synchronize state
+    const { merged } = this.mergeCopies(local, conflict.remote);
+    const chosen = resolution === 'local' ? {} : resolution === 'remote' ? { content: conflict.remote.content } : resolution;
+    return this.commitMerge({
+      ...merged,
+      ...chosen,
+      id,
+      clock: tickClock(merged.clock, this.agentIdentity.id),
+    });
+  }
+
+  /**
+   * Register listener for merge conflicts found while applying pulled snippets
+   */
+  public onConflict(listener: (conflict: MergeConflict<ContextSnippet>) => void): () => void {
+    this.conflictListeners.push(listener);
+    return () => {
+      const index = this.conflictListeners.indexOf(listener);
+      if (index > -1) {
+        this.conflictListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Synchronize with shared vault: push the pending delta, then apply pulled snippets
+   */
+  public async syncWithSharedVault(): Promise<boolean> {
+    if (!this.syncWithVault || !this.vaultUrl || !this.transport) {
+      return false;
+    }
+
+    this.enforceRetention();
+    const delta = this.buildSyncDelta();
+    const pulled = await this.transport(delta);
+    if (pulled === null) {
+      return false;
+    }
+
+    this.acknowledgeSync(delta);
+    this.applyRemoteSnippets(pulled);
+    return true;
   }
 
   /**
@@ -174,7 +542,9 @@ export class GSNMemory {
 
     if (this.autoSync && this.syncWithVault) {
       this.syncInterval = setInterval(() => {
-        this.syncWithSharedVault();
+        this.syncWithSharedVault().catch(error => {
+          this.logger.warn('Vault sync failed', { error });
+        });
       }, interval);
     }
   }
@@ -190,22 +560,281 @@ export class GSNMemory {
   }
 
   /**
-   * Emit synchronization event
+   * Listen for snippet add/update/delete events
+   */
+  public onSyncEvent(listener: (event: MemorySyncEvent) => void): () => void {
+    this.eventListeners.push(listener);
+    return () => {
+      const index = this.eventListeners.indexOf(listener);
+      if (index > -1) {
+        this.eventListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Emit synchronization event and record it as a pending change
    */
   private emitSyncEvent(event: MemorySyncEvent): void {
-    console.log(`[GSN-Memory] Emitting sync event: ${event.type}`, {
-      snippetId: event.snippet.id,
-      timestamp: event.timestamp,
+    this.logger.debug(`Emitting sync event: ${event.type}`, { snippetId: event.snippet.id });
+
+    const change: PendingChange = { sequence: ++this.changeSequence, event };
+    this.pendingChanges.set(event.snippet.id, change);
+    this.storage?.put('snippet-changes', event.snippet.id, change);
+
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error('Error in event listener', { error });
+      }
+    });
+  }
+
+  /**
+   * Load snippets, unsynced changes and sync progress from storage
+   */
+  private restoreFromStorage(): void {
+    if (!this.storage) {
+      return;
+    }
+
+    this.contextSnippets = this.storage.load<ContextSnippet>('snippets');
+    this.contextSnippets.forEach(snippet => this.indexSnippet(snippet));
+    this.pendingChanges = this.storage.load<PendingChange>('snippet-changes');
+    this.pendingChanges.forEach(change => {
+      this.changeSequence = Math.max(this.changeSequence, change.sequence);
+    });
+    this.lastAckedSync = this.storage.load<number>('memory-sync').get('lastAckedSync') ?? null;
+    this.conflicts = this.storage.load<MergeConflict<ContextSnippet>>('snippet-conflicts');
+  }
+
+  /**
+   * Snippets and unsynced changes, for GSNConnector.exportSnapshot()
+   */
+  public exportState(): MemorySnapshot {
+    return { snippets: this.getAllSnippets(), pendingChanges: this.getPendingChanges() };
+  }
+
+  /**
+   * Load snippets from a snapshot. 'merge' keeps the newer copy of each snippet (by vector clock,
+   * then revision, then change time) and merges concurrent edits like a sync pull would.
+   * Imported pending changes are queued for the next sync without emitting events.
+   * Retention limits apply to the result.
+   */
+  public importState(state: MemorySnapshot, mode: SnapshotImportMode): void {
+    if (mode === 'replace') {
+      this.contextSnippets.clear();
+      this.searchIndex.clear();
+      this.queryIndex.clear();
+      this.accessOrder.clear();
+      this.revisions.clear(true);
+      this.conflicts.clear();
+      this.storage?.clear('snippet-conflicts');
+      this.pendingChanges.clear();
+      this.storage?.clear('snippets');
+      this.storage?.clear('snippet-changes');
+    }
+
+    state.snippets.forEach(snippet => {
+      const existing = this.contextSnippets.get(snippet.id);
+      switch (existing ? compareVersions(snippet, existing, changedAt) : 'after') {
+        case 'after':
+          this.storeRemote(snippet);
+          break;
+        case 'concurrent': {
+          const { merged, conflicts } = this.mergeCopies(existing!, snippet);
+          if (conflicts.length > 0) {
+            this.raiseConflict({ id: snippet.id, local: existing!, remote: snippet, fields: conflicts, detectedAt: Date.now() });
+          } else {
+            this.commitMerge(merged);
+          }
+          break;
+        }
+      }
+    });
+
+    state.pendingChanges.forEach(event => {
+      const existing = this.pendingChanges.get(event.snippet.id);
+      if (existing && existing.event.timestamp >= event.timestamp) {
+        return;
+      }
+      const change: PendingChange = { sequence: ++this.changeSequence, event };
+      this.pendingChanges.set(event.snippet.id, change);
+      this.storage?.put('snippet-changes', event.snippet.id, change);
+    });
+
+    this.enforceRetention();
+  }
+
+  /**
+   * Reject further local snippet writes (remote snippets are still applied)
+   */
+  public seal(): void {
+    this.sealed = true;
+  }
+
+  public isSealed(): boolean {
+    return this.sealed;
+  }
+
+  private indexSnippet(snippet: ContextSnippet): void {
+    this.searchIndex.upsert({ id: snippet.id, text: snippet.content, tags: snippet.tags });
+    this.queryIndex.upsert(snippet.id, { tags: snippet.tags, agentId: snippet.agentId, createdAt: snippet.timestamp });
+    this.touch(snippet.id);
+  }
+
+  /**
+   * Drop a snippet everywhere and, with `propagate`, queue its deletion for the vault.
+   * Without it only the local copy goes, along with any unsynced change to it.
+   */
+  private removeSnippet(id: string, propagate: boolean = true): boolean {
+    const existing = this.contextSnippets.get(id);
+    if (!existing) {
+      return false;
+    }
+    this.contextSnippets.delete(id);
+    this.searchIndex.remove(id);
+    this.queryIndex.remove(id);
+    this.accessOrder.delete(id);
+    this.revisions.remove(id);
+    this.storage?.delete('snippets', id);
+    if (this.conflicts.delete(id)) {
+      this.storage?.delete('snippet-conflicts', id);
+    }
+    if (!propagate) {
+      if (this.pendingChanges.delete(id)) {
+        this.storage?.delete('snippet-changes', id);
+      }
+      return true;
+    }
+    const tombstone: ContextSnippet = {
+      id,
+      agentId: this.agentIdentity.id,
+      content: '',
+      timestamp: Date.now(),
+      tags: [],
+      revision: (existing.revision ?? 0) + 1,
+    };
+    this.emitSyncEvent({ type: 'delete', snippet: tombstone, timestamp: Date.now() });
+    return true;
+  }
+
+  /**
+   * Whether a snippet was written by this agent (retention only deletes those from the vault)
+   */
+  private isOwn(id: string): boolean {
+    return this.contextSnippets.get(id)?.agentId === this.agentIdentity.id;
+  }
+
+  /**
+   * Merge a concurrently edited copy into the local snippet against their last common revision
+   */
+  private mergeCopies(local: ContextSnippet, remote: ContextSnippet): MergeResult<ContextSnippet> {
+    const history = this.revisions.list(local.id).map(r => r.record);
+    return mergeConcurrent(local, remote, ['content'], changedAt, findCommonAncestor(history, local, remote));
+  }
+
+  private storeRemote(remote: ContextSnippet): void {
+    this.contextSnippets.set(remote.id, remote);
+    this.indexSnippet(remote);
+    if (remote.revision !== undefined) {
+      this.revisions.record(remote, remote.agentId, changedAt(remote));
+    }
+    this.storage?.put('snippets', remote.id, remote);
+    if (this.conflicts.delete(remote.id)) {
+      this.storage?.delete('snippet-conflicts', remote.id);
+    }
+  }
+
+  /**
+   * Save a merge result as a new local revision, and queue it for the vault. Automatic merges keep the merged clock
+   * untouched so every agent merging the same pair converges; resolutions tick it first.
+   */
+  private commitMerge(merged: ContextSnippet): ContextSnippet {
+    const now = Date.now();
+    const snippet: ContextSnippet = {
+      ...merged,
+      updatedAt: now,
+      revision: (merged.revision ?? 0) + 1,
+    };
+    this.contextSnippets.set(snippet.id, snippet);
+    this.indexSnippet(snippet);
+    this.revisions.record(snippet, this.agentIdentity.id, now);
+    this.storage?.put('snippets', snippet.id, snippet);
+    this.emitSyncEvent({ type: 'update', snippet, timestamp: now });
+    return snippet;
+  }
+
+  private raiseConflict(conflict: MergeConflict<ContextSnippet>): void {
+    const known = this.conflicts.get(conflict.id);
+    if (known && compareClocks(known.remote.clock, conflict.remote.clock) === 'equal') {
+      return;
+    }
+    this.conflicts.set(conflict.id, conflict);
+    this.storage?.put('snippet-conflicts', conflict.id, conflict);
+    this.logger.warn('Concurrent snippet edits conflict', { snippetId: conflict.id, fields: conflict.fields });
+    this.conflictListeners.forEach(listener => {
+      try {
+        listener(conflict);
+      } catch (error) {
+        this.logger.error('Error in conflict listener', { error });
+      }
     });
+  }
+
+  private touch(id: string): void {
+    this.accessOrder.set(id, ++this.accessSequence);
+  }
 
-    // In real implementation, this would emit to event bus or pub/sub system
+  private markAccessed(snippets: ContextSnippet[]): ContextSnippet[] {
+    snippets.forEach(snippet => this.touch(snippet.id));
+    return snippets;
   }
 
   /**
-   * Clean up resources
+   * Lower ranks are evicted first; ties go to the oldest snippet
+   */
+  private evictionRank(snippet: ContextSnippet): number {
+    switch (this.retention.eviction ?? 'oldest') {
+      case 'lru':
+        return this.accessOrder.get(snippet.id) ?? 0;
+      case 'lowest-priority': {
+        const priorities = this.retention.tagPriorities || {};
+        return snippet.tags.length > 0 ? Math.max(...snippet.tags.map(tag => priorities[tag] ?? 0)) : 0;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  private assertWritable(): void {
+    if (this.sealed) {
+      throw new GSNSealedError('Memory is sealed for shutdown; snippets can no longer be changed');
+    }
+  }
+
+  /**
+   * Clean up resources (persisted state in storage is kept)
    */
   public dispose(): void {
     this.stopAutoSync();
     this.contextSnippets.clear();
+    this.searchIndex.clear();
+    this.queryIndex.clear();
+    this.accessOrder.clear();
+    this.revisions.clear();
+    this.conflicts.clear();
+    this.pendingChanges.clear();
+    this.eventListeners.length = 0;
+    this.conflictListeners.length = 0;
   }
 }
+
+function changedAt(snippet: ContextSnippet): number {
+  return snippet.updatedAt ?? snippet.timestamp;
+}
+
+function contentBytes(snippet: ContextSnippet): number {
+  return Buffer.byteLength(snippet.content, 'utf8');
+}
@@ -0,0 +1,167 @@
+/**
+ * GSN Merge Module
+ * Vector clocks and deterministic merging of concurrently edited snippets and insights
+ */
+
+import { VectorClock, ClockOrder } from './types';
+
+/**
+ * Fields every mergeable record has
+ */
+export interface MergeableRecord {
+  id: string;
+  tags: string[];
+  metadata?: Record<string, unknown>;
+  clock?: VectorClock;
+  revision?: number;
+}
+
+export interface MergeResult<T> {
+  /** Union of tags, three-way merged metadata keys and fields, merged clock; conflicting content taken from `local` */
+  merged: T;
+  /** Content fields both sides changed to different values */
+  conflicts: string[];
+}
+
+/**
+ * How clock `a` relates to clock `b`: 'before' means b has seen every event a has
+ */
+export function compareClocks(a: VectorClock = {}, b: VectorClock = {}): ClockOrder {
+  let aAhead = false;
+  let bAhead = false;
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach(agentId => {
+    const x = a[agentId] || 0;
+    const y = b[agentId] || 0;
+    if (x > y) aAhead = true;
+    if (y > x) bAhead = true;
+  });
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * Component-wise maximum of two clocks
+ */
+export function mergeClocks(a: VectorClock = {}, b: VectorClock = {}): VectorClock {
+  const merged: VectorClock = { ...a };
+  Object.entries(b).forEach(([agentId, counter]) => {
+    merged[agentId] = Math.max(merged[agentId] || 0, counter);
+  });
+  return merged;
+}
+
+/**
+ * Record one local event by `agentId`
+ */
+export function tickClock(clock: VectorClock = {}, agentId: string): VectorClock {
+  return { ...clock, [agentId]: (clock[agentId] || 0) + 1 };
+}
+
+/**
+ * How an incoming copy of a record relates to the local one outside a live sync (e.g. a snapshot
+ * import): by vector clock when both carry one, otherwise by revision, otherwise by `changedAt`
+ */
+export function compareVersions<T extends MergeableRecord>(
+  incoming: T,
+  local: T,
+  changedAt: (record: T) => number
+): ClockOrder {
+  if (incoming.clock && local.clock) {
+    return compareClocks(incoming.clock, local.clock);
+  }
+  if (incoming.revision !== undefined && local.revision !== undefined && incoming.revision !== local.revision) {
+    return incoming.revision > local.revision ? 'after' : 'before';
+  }
+  const delta = changedAt(incoming) - changedAt(local);
+  return delta > 0 ? 'after' : delta < 0 ? 'before' : 'equal';
+}
+
+/**
+ * The latest version in `history` that both sides descend from, or undefined once it has been
+ * trimmed from the history (or either side has no clock)
+ */
+export function findCommonAncestor<T extends MergeableRecord>(history: T[], local: T, remote: T): T | undefined {
+  if (!local.clock || !remote.clock) {
+    return undefined;
+  }
+  const precedes = (record: T, other: T) => ['before', 'equal'].includes(compareClocks(record.clock, other.clock));
+  return history
+    .filter(record => record.clock && precedes(record, local) && precedes(record, remote))
+    .sort((a, b) => (a.revision ?? 0) - (b.revision ?? 0))
+    .pop();
+}
+
+/**
+ * Merge two concurrent versions of a record. Every agent merging the same pair against the same
+ * `ancestor` gets the same result: tags are the sorted union, and each metadata key and field takes
+ * the side that changed it since `ancestor`. Keys both sides changed (or every key, without an
+ * ancestor) go to the later writer (`changedAt`, ties broken by value); `contentFields` both sides
+ * changed to different values are reported as conflicts and keep the local value.
+ */
+export function mergeConcurrent<T extends MergeableRecord>(
+  local: T,
+  remote: T,
+  contentFields: Array<keyof T & string>,
+  changedAt: (record: T) => number,
+  ancestor?: T
+): MergeResult<T> {
+  const remoteWins = (changedAt(remote) - changedAt(local) || compareValues(remote, local)) > 0;
+  const pick = (ours: unknown, theirs: unknown, base: unknown, content: boolean): unknown => {
+    if (sameValue(ours, theirs)) return ours;
+    if (ancestor && sameValue(ours, base)) return theirs;
+    if (ancestor && sameValue(theirs, base)) return ours;
+    return remoteWins && !content ? theirs : ours;
+  };
+
+  const merged = { ...local } as T;
+  const record = merged as Record<string, unknown>;
+  const bookkeeping = new Set<string>(['id', 'tags', 'metadata', 'clock', 'revision']);
+  new Set([...Object.keys(local), ...Object.keys(remote)]).forEach(field => {
+    if (bookkeeping.has(field)) return;
+    const value = pick(
+      (local as Record<string, unknown>)[field],
+      (remote as Record<string, unknown>)[field],
+      (ancestor as Record<string, unknown> | undefined)?.[field],
+      contentFields.includes(field as keyof T & string)
+    );
+    if (value === undefined) {
+      delete record[field];
+    } else {
+      record[field] = value;
+    }
+  });
+
+  if (local.metadata || remote.metadata) {
+    const metadata: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(local.metadata || {}), ...Object.keys(remote.metadata || {})]);
+    Array.from(keys).sort().forEach(key => {
+      const value = pick(local.metadata?.[key], remote.metadata?.[key], ancestor?.metadata?.[key], false);
+      if (value !== undefined) {
+        metadata[key] = value;
+      }
+    });
+    merged.metadata = metadata;
+  }
+
+  merged.tags = Array.from(new Set([...local.tags, ...remote.tags])).sort();
+  merged.clock = mergeClocks(local.clock, remote.clock);
+  merged.revision = Math.max(local.revision ?? 0, remote.revision ?? 0);
+
+  const conflicts = contentFields.filter(field =>
+    !sameValue(local[field], remote[field]) &&
+    !(ancestor && (sameValue(local[field], ancestor[field]) || sameValue(remote[field], ancestor[field])))
+  );
+  return { merged, conflicts };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const x = JSON.stringify(a);
+  const y = JSON.stringify(b);
+  return x === y ? 0 : x > y ? 1 : -1;
+}
@@ -0,0 +1,747 @@
+/**
+ * GSN Mock Platform Module
+ * In-process stand-in for the GSN Platform API, for tests and offline development.
+ * Implements the routes GSNPlatformClient calls with in-memory state and tier rules.
+ *
+ * USAGE:
+ *   const mock = new GSNMockPlatform();
+ *   const url = await mock.start();
+ *   const gsn = new GSNConnector({ platformUrl: url, agentName: 'TestAgent' });
+ *   ...
+ *   await mock.stop();
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Announcement,
+  BountyTask,
+  ContextSnippet,
+  Insight,
+  KnowledgeEntry,
+  MoltbookPost,
+  PlatformMessage,
+  Webhook,
+  VectorClock,
+} from './types';
+import { compareClocks } from './gsn-merge';
+
+export const MOCK_TIERS = ['guest', 'member', 'builder', 'commander', 'founder'] as const;
+export type MockTier = typeof MOCK_TIERS[number];
+
+export interface MockPlatformOptions {
+  /** Port to listen on (default: 0, a random free port) */
+  port?: number;
+  /** Tier given to newly registered agents (default: 'member') */
+  defaultTier?: MockTier;
+  /** Platform version reported by register and health */
+  version?: string;
+}
+
+export interface MockAgent {
+  id: string;
+  name: string;
+  apiKey: string;
+  tier: MockTier;
+  capabilities: string[];
+  reputation: number;
+  tasksCompleted: number;
+  knowledgeContributed: number;
+  joined: string;
+  lastSeen: string;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  agentId?: string;
+  body?: any;
+}
+
+interface StoredSnippet {
+  snippet: ContextSnippet;
+  ownerId: string;
+  updatedAt: number;
+}
+
+interface StoredInsight {
+  insight: Insight;
+  ownerId: string;
+  updatedAt: number;
+}
+
+interface RouteContext {
+  query: URLSearchParams;
+  body: any;
+  agent?: MockAgent;
+}
+
+interface RouteResult {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+type RouteHandler = (ctx: RouteContext) => RouteResult;
+
+interface Route {
+  /** Minimum tier, or 'any' for unauthenticated routes */
+  tier: MockTier | 'any';
+  /** Label used in tier errors, e.g. 'elevated+' */
+  tierLabel?: string;
+  handler: RouteHandler;
+}
+
+const CHANNELS = [
+  { id: 'general', name: 'general', description: 'Network-wide chat', tier: 'member' as MockTier },
+  { id: 'builders', name: 'builders', description: 'Builder+ discussion', tier: 'builder' as MockTier },
+  { id: 'command', name: 'command', description: 'Commander+ coordination', tier: 'commander' as MockTier },
+  { id: 'leadership', name: 'leadership', description: 'Founders only', tier: 'founder' as MockTier },
+];
+
+const TASK_CATEGORIES = ['coding', 'research', 'writing', 'design', 'data', 'other'];
+
+function ok(body: Record<string, unknown>): RouteResult {
+  return { status: 200, body: { success: true, ...body } };
+}
+
+/**
+ * Vault rule for a pushed record: with vector clocks only a version that has seen the stored one
+ * replaces it (a concurrent push is refused, so its author pulls, merges and pushes again);
+ * without them a lower revision is stale
+ */
+function classifyWrite(
+  incoming: { revision?: number; clock?: VectorClock },
+  stored?: { revision?: number; clock?: VectorClock }
+): 'apply' | 'same' | 'stale' {
+  if (!stored || JSON.stringify(incoming) === JSON.stringify(stored)) {
+    return stored ? 'same' : 'apply';
+  }
+  if (incoming.clock && stored.clock) {
+    const order = compareClocks(incoming.clock, stored.clock);
+    return order === 'after' ? 'apply' : order === 'equal' ? 'same' : 'stale';
+  }
+  return incoming.revision !== undefined && stored.revision !== undefined && incoming.revision < stored.revision
+    ? 'stale'
+    : 'apply';
+}
+
+function error(status: number, message: string, extra: Record<string, unknown> = {}): RouteResult {
+  return { status, body: { success: false, error: message, ...extra } };
+}
+
+export class GSNMockPlatform {
+  private server: Server | null = null;
+  private port: number;
+  private defaultTier: MockTier;
+  private version: string;
+  private routes: Map<string, Route> = new Map();
+
+  private agents: Map<string, MockAgent> = new Map();
+  private agentsByKey: Map<string, MockAgent> = new Map();
+  private snippets: Map<string, StoredSnippet> = new Map();
+  private insights: Map<string, StoredInsight> = new Map();
+  private tasks: Map<string, BountyTask> = new Map();
+  private knowledge: Map<string, KnowledgeEntry> = new Map();
+  private messages: PlatformMessage[] = [];
+  private announcements: Announcement[] = [];
+  private webhooks: Map<string, Webhook & { agentId: string }> = new Map();
+  private moltbookPosts: MoltbookPost[] = [];
+  private idempotentResponses: Map<string, RouteResult> = new Map();
+  private requests: MockRequest[] = [];
+
+  constructor(options: MockPlatformOptions = {}) {
+    this.port = options.port ?? 0;
+    this.defaultTier = options.defaultTier ?? 'member';
+    this.version = options.version ?? '3.2.0-mock';
+    this.registerRoutes();
+  }
+
+  // ============= Lifecycle =============
+
+  /**
+   * Start listening on localhost. Resolves with the base URL.
+   */
+  public async start(): Promise<string> {
+    if (this.server) {
+      return this.getUrl();
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(e => {
+        this.send(res, error(500, `Mock platform error: ${e.message}`));
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>(resolve => server.listen(this.port, '127.0.0.1', resolve));
+    return this.getUrl();
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    // closeAllConnections() arrived in Node 18.2
+    if (typeof server.closeAllConnections === 'function') {
+      server.closeAllConnections();
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  public getUrl(): string {
+    if (!this.server) {
+      throw new Error('Mock platform is not running');
+    }
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  // ============= Test Helpers =============
+
+  /** Change an agent's tier */
+  public setTier(agentId: string, tier: MockTier): void {
+    const agent = this.agents.get(agentId);
+    if (agent) agent.tier = tier;
+  }
+
+  /** Get a registered agent */
+  public getAgent(agentId: string): MockAgent | undefined {
+    return this.agents.get(agentId);
+  }
+
+  /** Publish an announcement (shows up in heartbeats, syncs and /api/announcements) */
+  public addAnnouncement(title: string, content: string): Announcement {
+    const announcement = { id: uuidv4(), title, content, created: new Date().toISOString() };
+    this.announcements.push(announcement);
+    return announcement;
+  }
+
+  /** Seed a bounty task without going through /api/tasks/create */
+  public addTask(task: Partial<BountyTask> & { title: string }): BountyTask {
+    const stored: BountyTask = {
+      id: uuidv4(),
+      reward: 0,
+      status: 'open',
+      tags: [],
+      created: new Date().toISOString(),
+      ...task,
+    };
+    this.tasks.set(stored.id, stored);
+    return stored;
+  }
+
+  /** Get a bounty task */
+  public getTask(taskId: string): BountyTask | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  /** Snippets currently held in the shared vault */
+  public getSnippets(): ContextSnippet[] {
+    return Array.from(this.snippets.values()).map(s => s.snippet);
+  }
+
+  /** Insights agents have pushed through sync */
+  public getInsights(): Insight[] {
+    return Array.from(this.insights.values()).map(i => i.insight);
+  }
+
+  /** Every request received, in order */
+  public getRequests(): MockRequest[] {
+    return [...this.requests];
+  }
+
+  /** Drop all state (agents, tasks, knowledge, messages, snippets, insights, requests) */
+  public reset(): void {
+    this.agents.clear();
+    this.agentsByKey.clear();
+    this.snippets.clear();
+    this.insights.clear();
+    this.tasks.clear();
+    this.knowledge.clear();
+    this.messages = [];
+    this.announcements = [];
+    this.webhooks.clear();
+    this.moltbookPosts = [];
+    this.idempotentResponses.clear();
+    this.requests = [];
+  }
+
+  // ============= Request Handling =============
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://mock');
+    const method = req.method || 'GET';
+    const body = method === 'POST' ? await this.readBody(req) : undefined;
+    const apiKey = req.headers['x-gsn-api-key'];
+    const agent = typeof apiKey === 'string' ? this.agentsByKey.get(apiKey) : undefined;
+
+    this.requests.push({ method, path: url.pathname, agentId: agent?.id, body });
+
+    const route = this.routes.get(`${method} ${url.pathname}`);
+    if (!route) {
+      this.send(res, error(404, `No route for ${method} ${url.pathname}`));
+      return;
+    }
+
+    if (route.tier !== 'any') {
+      if (!agent) {
+        this.send(res, error(401, 'Missing or invalid API key'));
+        return;
+      }
+      if (!this.hasTier(agent, route.tier)) {
+        const label = route.tierLabel || `${route.tier}+`;
+        this.send(res, error(403, `This feature is ${label} only`, { requiredTier: route.tier, tier: agent.tier }));
+        return;
+      }
+      agent.lastSeen = new Date().toISOString();
+    }
+
+    const idempotencyKey = req.headers['x-idempotency-key'];
+    const cacheKey = typeof idempotencyKey === 'string' ? `${agent?.id || 'anon'}:${idempotencyKey}` : null;
+    if (cacheKey && this.idempotentResponses.has(cacheKey)) {
+      this.send(res, this.idempotentResponses.get(cacheKey)!);
+      return;
+    }
+
+    const result = route.handler({ query: url.searchParams, body: body || {}, agent });
+    if (cacheKey) {
+      this.idempotentResponses.set(cacheKey, result);
+    }
+    this.send(res, result);
+  }
+
+  private readBody(req: IncomingMessage): Promise<any> {
+    return new Promise(resolve => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        try {
+          resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+        } catch {
+          resolve({});
+        }
+      });
+    });
+  }
+
+  private send(res: ServerResponse, result: RouteResult): void {
+    res.writeHead(result.status, { 'Content-Type': 'application/json', ...(result.headers || {}) });
+    res.end(JSON.stringify(result.body));
+  }
+
+  private hasTier(agent: MockAgent, required: MockTier): boolean {
+    return MOCK_TIERS.indexOf(agent.tier) >= MOCK_TIERS.indexOf(required);
+  }
+
+  private route(method: 'GET' | 'POST', path: string, tier: MockTier | 'any', handler: RouteHandler, tierLabel?: string): void {
+    this.routes.set(`${method} ${path}`, { tier, tierLabel, handler });
+  }
+
+  // ============= Routes =============
+
+  private registerRoutes(): void {
+    // Connector
+    this.route('POST', '/api/connector/register', 'any', ctx => this.register(ctx));
+    this.route('POST', '/api/connector/heartbeat', 'member', () => ok({
+      ack: true,
+      pendingTasks: this.openTasks().map(t => ({
+        id: t.id, title: t.title, reward: t.reward, priority: t.priority || 'medium', category: t.category, tags: t.tags,
+      })),
+      announcements: this.announcements.slice(-5),
+      serverTime: new Date().toISOString(),
+    }));
+    this.route('POST', '/api/connector/sync', 'member', ctx => this.sync(ctx));
+
+    // Messaging
+    this.route('POST', '/api/messages/send', 'member', ctx => this.sendMessage(ctx));
+    this.route('GET', '/api/messages', 'member', ctx => ok({
+      messages: this.messages
+        .filter(m => m.channelId === ctx.query.get('channelId'))
+        .slice(-Number(ctx.query.get('limit') || 20)),
+    }));
+    this.route('GET', '/api/messages/inbox', 'member', ctx => {
+      const inbox = this.messages.filter(m => m.toAgentId === ctx.agent!.id);
+      return ok({
+        messages: inbox.slice(-Number(ctx.query.get('limit') || 20)),
+        unread: inbox.filter(m => !m.read).length,
+      });
+    });
+
+    // Tasks
+    this.route('POST', '/api/tasks/create', 'commander', ctx => this.createTask(ctx));
+    this.route('GET', '/api/tasks', 'member', ctx => {
+      const status = ctx.query.get('status');
+      const category = ctx.query.get('category');
+      const mine = ctx.query.get('mine') === 'true';
+      return ok({
+        tasks: Array.from(this.tasks.values()).filter(t =>
+          (!status || t.status === status) &&
+          (!category || t.category === category) &&
+          (!mine || t.createdBy === ctx.agent!.id || t.claimedBy === ctx.agent!.id)
+        ),
+      });
+    });
+    this.route('POST', '/api/tasks/claim', 'member', ctx => this.claimTask(ctx));
+    this.route('POST', '/api/tasks/submit', 'member', ctx => this.submitTask(ctx));
+    this.route('GET', '/api/tasks/categories', 'any', () => {
+      const tags = new Map<string, number>();
+      this.tasks.forEach(t => (t.tags || []).forEach(tag => tags.set(tag, (tags.get(tag) || 0) + 1)));
+      return ok({
+        categories: TASK_CATEGORIES,
+        popularTags: Array.from(tags.entries()).sort((a, b) => b[1] - a[1]).slice(0, 10).map(([tag]) => tag),
+      });
+    });
+
+    // Knowledge
+    this.route('POST', '/api/knowledge/add', 'member', ctx => this.addKnowledge(ctx));
+    this.route('GET', '/api/knowledge/search', 'member', ctx => {
+      const q = (ctx.query.get('q') || '').toLowerCase();
+      const tag = ctx.query.get('tag');
+      return ok({
+        results: Array.from(this.knowledge.values())
+          .filter(k => (!tag || k.tags.includes(tag)) &&
+            (k.title.toLowerCase().includes(q) || (k.content || '').toLowerCase().includes(q)))
+          .map(k => ({ ...k, content: undefined, summary: (k.content || '').slice(0, 140) })),
+      });
+    });
+    this.route('GET', '/api/knowledge/read', 'builder', ctx => {
+      const entry = this.knowledge.get(ctx.query.get('id') || '');
+      if (!entry) return error(404, 'Knowledge entry not found');
+      entry.views = (entry.views || 0) + 1;
+      return ok({ entry });
+    });
+    this.route('POST', '/api/knowledge/upvote', 'member', ctx => {
+      const entry = this.knowledge.get(ctx.body.id);
+      if (!entry) return error(404, 'Knowledge entry not found');
+      entry.upvotes = (entry.upvotes || 0) + 1;
+      const author = entry.authorId ? this.agents.get(entry.authorId) : undefined;
+      if (author) author.reputation += 2;
+      return ok({ upvotes: entry.upvotes });
+    });
+    this.route('GET', '/api/knowledge/trending', 'any', ctx => ok({
+      entries: Array.from(this.knowledge.values())
+        .sort((a, b) => this.trendScore(b) - this.trendScore(a))
+        .slice(0, Number(ctx.query.get('limit') || 10)),
+    }));
+
+    // Network info
+    this.route('GET', '/api/stats', 'any', () => ok({
+      agents: this.agents.size,
+      tasks: this.tasks.size,
+      knowledge: this.knowledge.size,
+      messages: this.messages.length,
+    }));
+    this.route('GET', '/api/leaderboard', 'any', () => ok({
+      leaderboard: Array.from(this.agents.values())
+        .sort((a, b) => b.reputation - a.reputation)
+        .map((a, i) => ({ agentId: a.id, name: a.name, reputation: a.reputation, tasksCompleted: a.tasksCompleted, tier: a.tier, rank: i + 1 })),
+    }));
+    this.route('GET', '/api/announcements', 'any', ctx => ok({
+      announcements: this.announcements.slice(-Number(ctx.query.get('limit') || 10)),
+    }));
+    this.route('GET', '/api/profile', 'member', ctx => {
+      const agent = this.agents.get(ctx.query.get('agentId') || ctx.agent!.id);
+      if (!agent) return error(404, 'Agent not found');
+      return ok({
+        profile: {
+          agentId: agent.id,
+          name: agent.name,
+          tier: agent.tier,
+          reputation: agent.reputation,
+          tasksCompleted: agent.tasksCompleted,
+          capabilities: agent.capabilities,
+          knowledgeContributed: agent.knowledgeContributed,
+          joined: agent.joined,
+          lastSeen: agent.lastSeen,
+        },
+      });
+    });
+    this.route('GET', '/api/agents', 'member', () => ok({
+      agents: Array.from(this.agents.values()).map(a => ({
+        id: a.id, name: a.name, tier: a.tier, capabilities: a.capabilities, reputation: a.reputation, lastSeen: a.lastSeen,
+      })),
+    }));
+
+    // Subscription
+    this.route('POST', '/api/subscribe', 'member', ctx => {
+      const tier = ctx.body.tier as MockTier;
+      if (!MOCK_TIERS.includes(tier) || tier === 'guest') return error(400, `Unknown tier: ${ctx.body.tier}`);
+      ctx.agent!.tier = tier;
+      return ok({ tier });
+    });
+
+    // Webhooks
+    this.route('POST', '/api/webhooks/register', 'commander', ctx => {
+      if (typeof ctx.body.url !== 'string') return error(400, 'url is required');
+      const webhook = { id: uuidv4(), url: ctx.body.url, events: ctx.body.events || ['*'], active: true, agentId: ctx.agent!.id };
+      this.webhooks.set(webhook.id, webhook);
+      return ok({ webhook: { id: webhook.id, url: webhook.url, events: webhook.events, active: webhook.active } });
+    }, 'commander+');
+    this.route('GET', '/api/webhooks', 'member', ctx => ok({
+      webhooks: Array.from(this.webhooks.values())
+        .filter(w => w.agentId === ctx.agent!.id)
+        .map(w => ({ id: w.id, url: w.url, events: w.events, active: w.active })),
+    }));
+
+    // Moltbook
+    this.route('POST', '/api/moltbook/crosspost', 'commander', ctx => {
+      const post: MoltbookPost = {
+        id: uuidv4(),
+        title: ctx.body.title,
+        body: ctx.body.body,
+        author: ctx.agent!.name,
+        submolt: ctx.body.submolt || 'grand-sage-network',
+        upvotes: 0,
+        comments: 0,
+        created: new Date().toISOString(),
+      };
+      this.moltbookPosts.push(post);
+      return ok({ post });
+    }, 'elevated+');
+    this.route('GET', '/api/moltbook/feed', 'member', ctx => {
+      const submolt = ctx.query.get('submolt');
+      const posts = this.moltbookPosts.filter(p => !submolt || p.submolt === submolt);
+      const sorted = ctx.query.get('sort') === 'recent'
+        ? [...posts].reverse()
+        : [...posts].sort((a, b) => (b.upvotes || 0) - (a.upvotes || 0));
+      return ok({ posts: sorted.slice(0, Number(ctx.query.get('limit') || 20)) });
+    });
+    this.route('GET', '/api/moltbook/search', 'member', ctx => {
+      const q = (ctx.query.get('q') || '').toLowerCase();
+      if (ctx.query.get('type') === 'agents') {
+        return ok({ agents: Array.from(this.agents.values()).filter(a => a.name.toLowerCase().includes(q)).map(a => ({ name: a.name })) });
+      }
+      return ok({ posts: this.moltbookPosts.filter(p => p.title.toLowerCase().includes(q) || (p.body || '').toLowerCase().includes(q)) });
+    });
+    this.route('POST', '/api/moltbook/comment', 'commander', ctx => {
+      const post = this.moltbookPosts.find(p => p.id === ctx.body.postId);
+      if (!post) return error(404, 'Post not found');
+      post.comments = (post.comments || 0) + 1;
+      return ok({ id: uuidv4() });
+    }, 'elevated+');
+    this.route('POST', '/api/moltbook/follow', 'commander', ctx => ok({ message: `Following ${ctx.body.agentName}` }), 'elevated+');
+    this.route('POST', '/api/moltbook/upvote', 'commander', ctx => {
+      const post = this.moltbookPosts.find(p => p.id === ctx.body.postId);
+      if (!post) return error(404, 'Post not found');
+      post.upvotes = (post.upvotes || 0) + 1;
+      return ok({ id: post.id });
+    }, 'elevated+');
+    this.route('GET', '/api/moltbook/notifications', 'commander', () => ok({ notifications: [] }), 'elevated+');
+    this.route('GET', '/api/moltbook/profile', 'member', ctx => ok({
+      profile: { name: ctx.agent!.name, karma: ctx.agent!.reputation, followers: 0 },
+    }));
+
+    // System
+    this.route('GET', '/api/immunity', 'any', () => ok({ immune: false }));
+    this.route('GET', '/api/health', 'any', () => ({
+      status: 200,
+      body: { status: 'ok', version: this.version, uptime: process.uptime() },
+    }));
+  }
+
+  // ============= Route Handlers =============
+
+  private register(ctx: RouteContext): RouteResult {
+    const { name, agentId, capabilities } = ctx.body;
+    if (typeof name !== 'string' || !name) {
+      return error(400, 'name is required');
+    }
+
+    const existing = agentId ? this.agents.get(agentId) : undefined;
+    const agent: MockAgent = existing || {
+      id: agentId || `gsn-${uuidv4().slice(0, 12)}`,
+      name,
+      apiKey: '',
+      tier: this.defaultTier,
+      capabilities: Array.isArray(capabilities) ? capabilities : [],
+      reputation: 0,
+      tasksCompleted: 0,
+      knowledgeContributed: 0,
+      joined: new Date().toISOString(),
+      lastSeen: new Date().toISOString(),
+    };
+
+    // Every registration issues a fresh key; the previous one stops working
+    if (agent.apiKey) this.agentsByKey.delete(agent.apiKey);
+    agent.apiKey = `gsn_${uuidv4().replace(/-/g, '')}`;
+    this.agents.set(agent.id, agent);
+    this.agentsByKey.set(agent.apiKey, agent);
+
+    return ok({
+      agentId: agent.id,
+      apiKey: agent.apiKey,
+      tier: agent.tier,
+      channels: CHANNELS.filter(c => this.hasTier(agent, c.tier)).map(({ id, name: channelName, description }) => ({ id, name: channelName, description })),
+      platformVersion: this.version,
+      message: existing ? 'Welcome back' : 'Welcome to GSN',
+      existing: !!existing,
+    });
+  }
+
+  private sync(ctx: RouteContext): RouteResult {
+    const agent = ctx.agent!;
+    const now = Date.now();
+    const since = ctx.body.pullSince ? Date.parse(ctx.body.pullSince) : 0;
+    const snippets: ContextSnippet[] = Array.isArray(ctx.body.snippets) ? ctx.body.snippets : [];
+    const deleted: string[] = Array.isArray(ctx.body.deletedSnippets) ? ctx.body.deletedSnippets : [];
+
+    const stale: string[] = [];
+    snippets.forEach(snippet => {
+      if (snippet && typeof snippet.id === 'string') {
+        const verdict = classifyWrite(snippet, this.snippets.get(snippet.id)?.snippet);
+        if (verdict === 'stale') {
+          stale.push(snippet.id);
+        } else if (verdict === 'apply') {
+          this.snippets.set(snippet.id, { snippet, ownerId: agent.id, updatedAt: now });
+        }
+      }
+    });
+    deleted.forEach(id => this.snippets.delete(id));
+
+    // Every sync pushes all of an agent's insights; only changed ones count as new for other agents
+    const insights: Insight[] = Array.isArray(ctx.body.insights) ? ctx.body.insights : [];
+    insights.forEach(insight => {
+      if (insight && typeof insight.id === 'string' && classifyWrite(insight, this.insights.get(insight.id)?.insight) === 'apply') {
+        this.insights.set(insight.id, { insight, ownerId: agent.id, updatedAt: now });
+      }
+    });
+
+    return ok({
+      pushed: {
+        snippets: snippets.length,
+        tasks: Array.isArray(ctx.body.tasks) ? ctx.body.tasks.length : 0,
+        insights: insights.length,
+        stale,
+      },
+      pulled: {
+        snippets: Array.from(this.snippets.values())
+          .filter(s => s.ownerId !== agent.id && s.updatedAt >= since)
+          .map(s => s.snippet),
+        insights: Array.from(this.insights.values())
+          .filter(i => i.ownerId !== agent.id && i.updatedAt >= since)
+          .map(i => i.insight),
+        tasks: this.openTasks()
+          .filter(t => !since || Date.parse(t.created || '') >= since)
+          .map(t => ({ id: t.id, title: t.title, reward: t.reward, priority: t.priority || 'medium', category: t.category || 'other' })),
+        announcements: this.announcements.filter(a => Date.parse(a.created) >= since),
+      },
+    });
+  }
+
+  private sendMessage(ctx: RouteContext): RouteResult {
+    const { channelId, toAgentName, toAgentId, content, subject } = ctx.body;
+    if (typeof content !== 'string' || !content) {
+      return error(400, 'content is required');
+    }
+
+    let recipient: MockAgent | undefined;
+    if (toAgentId || toAgentName) {
+      recipient = toAgentId
+        ? this.agents.get(toAgentId)
+        : Array.from(this.agents.values()).find(a => a.name === toAgentName);
+      if (!recipient) return error(404, 'Recipient not found');
+    } else {
+      const channel = CHANNELS.find(c => c.id === channelId);
+      if (!channel) return error(404, `Channel not found: ${channelId}`);
+      if (!this.hasTier(ctx.agent!, channel.tier)) {
+        return error(403, `Channel ${channel.name} is ${channel.tier}+ only`, { requiredTier: channel.tier, tier: ctx.agent!.tier });
+      }
+    }
+
+    const message: PlatformMessage = {
+      id: uuidv4(),
+      content,
+      subject,
+      channelId: recipient ? undefined : channelId,
+      fromAgentId: ctx.agent!.id,
+      fromAgentName: ctx.agent!.name,
+      toAgentId: recipient?.id,
+      created: new Date().toISOString(),
+      read: false,
+    };
+    this.messages.push(message);
+    return ok({ messageId: message.id });
+  }
+
+  private createTask(ctx: RouteContext): RouteResult {
+    const { title, description, reward, category, priority, tags, deadline } = ctx.body;
+    if (typeof title !== 'string' || !title) {
+      return error(400, 'title is required');
+    }
+
+    const task = this.addTask({
+      title,
+      description,
+      reward: typeof reward === 'number' ? reward : 0,
+      category: category || 'other',
+      priority: priority || 'medium',
+      tags: Array.isArray(tags) ? tags : [],
+      deadline,
+      createdBy: ctx.agent!.id,
+    });
+    return ok({ task });
+  }
+
+  private claimTask(ctx: RouteContext): RouteResult {
+    const task = this.tasks.get(ctx.body.taskId);
+    if (!task) return error(404, 'Task not found');
+    if (task.status !== 'open') return error(409, `Task is ${task.status}`);
+
+    task.status = 'claimed';
+    task.claimedBy = ctx.agent!.id;
+    return ok({ task, message: 'Task claimed' });
+  }
+
+  private submitTask(ctx: RouteContext): RouteResult {
+    const task = this.tasks.get(ctx.body.taskId);
+    if (!task) return error(404, 'Task not found');
+    if (task.claimedBy !== ctx.agent!.id) return error(403, 'You have not claimed this task');
+    if (task.status !== 'claimed') return error(409, `Task is ${task.status}`);
+
+    task.status = 'submitted';
+    ctx.agent!.tasksCompleted++;
+    ctx.agent!.reputation += Math.max(1, Math.round(task.reward / 10));
+    return ok({ task, message: 'Submission received' });
+  }
+
+  private addKnowledge(ctx: RouteContext): RouteResult {
+    const { title, content, tags } = ctx.body;
+    if (typeof title !== 'string' || typeof content !== 'string') {
+      return error(400, 'title and content are required');
+    }
+
+    const entry: KnowledgeEntry = {
+      id: uuidv4(),
+      title,
+      content,
+      tags: Array.isArray(tags) ? tags : [],
+      authorId: ctx.agent!.id,
+      authorName: ctx.agent!.name,
+      upvotes: 0,
+      views: 0,
+      created: new Date().toISOString(),
+    };
+    this.knowledge.set(entry.id, entry);
+    ctx.agent!.knowledgeContributed++;
+    return ok({ entry });
+  }
+
+  private openTasks(): BountyTask[] {
+    return Array.from(this.tasks.values()).filter(t => t.status === 'open');
+  }
+
+  private trendScore(entry: KnowledgeEntry): number {
+    return (entry.upvotes || 0) * 3 + (entry.views || 0);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * GSN Outbox Module
+ * Durable FIFO queue for mutating platform calls made while the platform is unreachable
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { OutboxEntry, StorageAdapter } from './types';
+
+export class GSNOutbox {
+  private entries: Map<string, OutboxEntry> = new Map();
+  private sequence: number = 0;
+  private storage?: StorageAdapter;
+
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage;
+    if (this.storage) {
+      this.entries = this.storage.load<OutboxEntry>('outbox');
+      this.entries.forEach(entry => {
+        this.sequence = Math.max(this.sequence, entry.sequence);
+      });
+    }
+  }
+
+  /**
+   * Queue a call for later replay
+   */
+  public enqueue(path: string, body: unknown, idempotencyKey: string = uuidv4(), error?: string): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: uuidv4(),
+      idempotencyKey,
+      path,
+      body,
+      sequence: ++this.sequence,
+      createdAt: Date.now(),
+      attempts: error ? 1 : 0,
+      lastError: error,
+    };
+
+    this.entries.set(entry.id, entry);
+    this.storage?.put('outbox', entry.id, entry);
+    return entry;
+  }
+
+  /**
+   * Record a failed replay attempt
+   */
+  public markAttempt(id: string, error: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.attempts++;
+    entry.lastError = error;
+    this.storage?.put('outbox', id, entry);
+  }
+
+  /**
+   * List queued entries in replay order
+   */
+  public list(): OutboxEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /**
+   * Get a queued entry by ID
+   */
+  public get(id: string): OutboxEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Drop a queued entry
+   */
+  public remove(id: string): boolean {
+    if (!this.entries.delete(id)) {
+      return false;
+    }
+    this.storage?.delete('outbox', id);
+    return true;
+  }
+
+  /**
+   * Drop every queued entry
+   */
+  public clear(): void {
+    this.entries.clear();
+    this.storage?.clear('outbox');
+  }
+
+  /**
+   * Number of queued entries
+   */
+  public size(): number {
+    return this.entries.size;
+  }
+}
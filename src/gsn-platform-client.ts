@@ -7,16 +7,125 @@
  *   // After registration, the API key is set automatically by GSNConnector
  */
 
-import { PlatformRegistration, HeartbeatResponse, SyncResponse } from './types';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PlatformRegistration,
+  HeartbeatResponse,
+  SyncResponse,
+  OutboxEntry,
+  OutboxFlushResult,
+  RequestPolicy,
+  CircuitState,
+  ContextSnippet,
+  Task,
+  Insight,
+  PlatformFailure,
+  PlatformResult,
+  SendMessageResponse,
+  MessagesResponse,
+  InboxResponse,
+  TaskResponse,
+  TasksResponse,
+  TaskCategoriesResponse,
+  KnowledgeSearchResponse,
+  KnowledgeEntryResponse,
+  KnowledgeTrendingResponse,
+  UpvoteResponse,
+  PlatformStats,
+  LeaderboardResponse,
+  AnnouncementsResponse,
+  ProfileResponse,
+  AgentsResponse,
+  SubscribeResponse,
+  WebhookResponse,
+  WebhooksResponse,
+  MoltbookPostResponse,
+  MoltbookFeedResponse,
+  MoltbookSearchResponse,
+  MoltbookActionResponse,
+  MoltbookNotificationsResponse,
+  MoltbookProfileResponse,
+  ImmunityResponse,
+  HealthResponse,
+  GSNLogger,
+  PlatformUrlResolver,
+} from './types';
+import { GSNOutbox } from './gsn-outbox';
+import { NOOP_LOGGER } from './gsn-logger';
+import { normalizeUrl, resolvePlatformUrls } from './gsn-discovery';
+import {
+  GSNError,
+  GSNNetworkError,
+  GSNAuthError,
+  GSNTierError,
+  GSNRateLimitError,
+  GSNNotFoundError,
+  GSNValidationError,
+} from './gsn-errors';
+import { Validator, validate } from './gsn-validation';
+import { platformSchemas } from './gsn-schemas';
+import { CircuitBreaker, computeBackoff, parseRetryAfter, resolveRequestPolicy } from './gsn-request-policy';
+
+export interface PlatformClientOptions {
+  /** Queue failed mutating calls here and replay them with flushOutbox() */
+  outbox?: GSNOutbox;
+  /** Timeout, retry and circuit breaker settings */
+  requestPolicy?: RequestPolicy;
+  /** Throw GSNError subclasses instead of resolving with PlatformFailure */
+  throwOnError?: boolean;
+  /** Other URLs to fail over to when the current one is unreachable */
+  fallbackUrls?: string[];
+  /** Look up current platform URLs on failover */
+  urlResolvers?: PlatformUrlResolver[];
+  logger?: GSNLogger;
+}
+
+interface HttpResult {
+  ok: boolean;
+  /** True when the request never got an HTTP response (includes timeouts and an open circuit) */
+  networkError: boolean;
+  networkReason?: 'unreachable' | 'timeout' | 'circuit-open';
+  status: number;
+  /** Parsed JSON body (error bodies too, when they are JSON) */
+  body: any;
+  /** Status text or network error message */
+  message: string;
+  retryAfterMs?: number;
+}
+
+const TIER_HINT = /tier|\+ only|elevated|builder|commander|founder/i;
+
+/**
+ * Type guard for failed platform calls
+ */
+export function isPlatformFailure<T>(result: PlatformResult<T>): result is PlatformFailure {
+  return typeof result === 'object' && result !== null && (result as { success?: unknown }).success === false;
+}
 
 export class GSNPlatformClient {
   private baseUrl: string;
   private apiKey: string | null = null;
   private immune: boolean;
-
-  constructor(baseUrl: string, immune: boolean = false) {
-    this.baseUrl = baseUrl.replace(/\/$/, '');
+  private outbox?: GSNOutbox;
+  private policy: Required<RequestPolicy>;
+  private breaker: CircuitBreaker;
+  private throwOnError: boolean;
+  private logger: GSNLogger;
+  private candidateUrls: string[];
+  private urlResolvers: PlatformUrlResolver[];
+  private failingOver: Promise<string | null> | null = null;
+  private baseUrlListeners: ((url: string, previous: string) => void)[] = [];
+
+  constructor(baseUrl: string, immune: boolean = false, options: PlatformClientOptions = {}) {
+    this.baseUrl = normalizeUrl(baseUrl);
+    this.candidateUrls = [this.baseUrl, ...(options.fallbackUrls || [])];
+    this.urlResolvers = options.urlResolvers || [];
     this.immune = immune;
+    this.outbox = options.outbox;
+    this.policy = resolveRequestPolicy(options.requestPolicy);
+    this.breaker = new CircuitBreaker(this.policy.circuitBreakerThreshold, this.policy.circuitBreakerResetMs);
+    this.throwOnError = options.throwOnError ?? false;
+    this.logger = (options.logger || NOOP_LOGGER).child({ module: 'platform' });
   }
 
   /** Set API key after registration */
@@ -29,6 +138,54 @@ export class GSNPlatformClient {
     return this.apiKey;
   }
 
+  /** Get the URL calls currently go to */
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /** Point the client at another platform URL; the circuit breaker starts fresh */
+  public setBaseUrl(url: string): void {
+    const next = normalizeUrl(url);
+    if (next === this.baseUrl) return;
+
+    const previous = this.baseUrl;
+    this.baseUrl = next;
+    this.breaker = new CircuitBreaker(this.policy.circuitBreakerThreshold, this.policy.circuitBreakerResetMs);
+    this.logger.info(`Platform URL changed to ${next}`, { previous });
+    this.baseUrlListeners.forEach(listener => {
+      try {
+        listener(next, previous);
+      } catch (e) {
+        this.logger.error('Base URL listener failed', { error: e });
+      }
+    });
+  }
+
+  /** Subscribe to base URL changes. Returns an unsubscribe function. */
+  public onBaseUrlChange(listener: (url: string, previous: string) => void): () => void {
+    this.baseUrlListeners.push(listener);
+    return () => {
+      this.baseUrlListeners = this.baseUrlListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Probe health() on each candidate URL (resolver results, then configured URLs) and switch
+   * to the first healthy one. Resolves with the new URL, or null if none answered.
+   * Concurrent callers share one probe round.
+   */
+  public async failover(): Promise<string | null> {
+    if (!this.failingOver) {
+      this.failingOver = this.findHealthyUrl().finally(() => { this.failingOver = null; });
+    }
+    return this.failingOver;
+  }
+
+  /** Get the circuit breaker state ('open' means calls are being short-circuited) */
+  public getCircuitState(): CircuitState {
+    return this.breaker.getState();
+  }
+
   // ============= Registration =============
 
   /** Register with the platform — returns API key and accessible channels */
@@ -39,8 +196,8 @@ export class GSNPlatformClient {
     description?: string;
     version?: string;
     source?: string;
-  }): Promise<PlatformRegistration> {
-    return this.post('/api/connector/register', data);
+  }): Promise<PlatformResult<PlatformRegistration>> {
+    return this.post('/api/connector/register', data, platformSchemas.register);
   }
 
   // ============= Heartbeat & Sync =============
@@ -51,18 +208,21 @@ export class GSNPlatformClient {
     snippetCount?: number;
     taskCount?: number;
     stats?: Record<string, unknown>;
-  }): Promise<HeartbeatResponse> {
-    return this.post('/api/connector/heartbeat', data);
+    /** 'offline' tells the platform this is the last heartbeat before shutting down */
+    status?: 'online' | 'offline';
+  }): Promise<PlatformResult<HeartbeatResponse>> {
+    return this.post('/api/connector/heartbeat', data, platformSchemas.heartbeat);
   }
 
   /** Sync data with platform — push local state, pull new data */
   public async sync(data: {
-    snippets?: any[];
-    tasks?: any[];
-    insights?: any[];
+    snippets?: ContextSnippet[];
+    deletedSnippets?: string[];
+    tasks?: Task[];
+    insights?: Insight[];
     pullSince?: string | null;
-  }): Promise<SyncResponse> {
-    return this.post('/api/connector/sync', data);
+  }): Promise<PlatformResult<SyncResponse>> {
+    return this.post('/api/connector/sync', data, platformSchemas.sync);
   }
 
   // ============= Messaging =============
@@ -74,18 +234,18 @@ export class GSNPlatformClient {
     toAgentId?: string;
     content: string;
     subject?: string;
-  }) {
-    return this.post('/api/messages/send', data);
+  }): Promise<PlatformResult<SendMessageResponse>> {
+    return this.postQueueable('/api/messages/send', data, platformSchemas.sendMessage);
   }
 
   /** Get messages from a channel */
-  public async getMessages(channelId: string, limit: number = 20) {
-    return this.get(`/api/messages?channelId=${channelId}&limit=${limit}`);
+  public async getMessages(channelId: string, limit: number = 20): Promise<PlatformResult<MessagesResponse>> {
+    return this.get(`/api/messages?channelId=${channelId}&limit=${limit}`, platformSchemas.messages);
   }
 
   /** Get your DM inbox */
-  public async getInbox(limit: number = 20) {
-    return this.get(`/api/messages/inbox?limit=${limit}`);
+  public async getInbox(limit: number = 20): Promise<PlatformResult<InboxResponse>> {
+    return this.get(`/api/messages/inbox?limit=${limit}`, platformSchemas.inbox);
   }
 
   // ============= Tasks / Bounty Board =============
@@ -99,199 +259,440 @@ export class GSNPlatformClient {
     priority?: string;
     tags?: string[];
     deadline?: string;
-  }) {
-    return this.post('/api/tasks/create', data);
+  }): Promise<PlatformResult<TaskResponse>> {
+    return this.postQueueable('/api/tasks/create', data, platformSchemas.task);
   }
 
   /** List available tasks (filter by status, category) */
-  public async getTasks(filters?: { status?: string; category?: string; mine?: boolean }) {
+  public async getTasks(filters?: { status?: string; category?: string; mine?: boolean }): Promise<PlatformResult<TasksResponse>> {
     const params = new URLSearchParams();
     if (filters?.status) params.set('status', filters.status);
     if (filters?.category) params.set('category', filters.category);
     if (filters?.mine) params.set('mine', 'true');
     const qs = params.toString();
-    return this.get(`/api/tasks${qs ? '?' + qs : ''}`);
+    return this.get(`/api/tasks${qs ? '?' + qs : ''}`, platformSchemas.tasks);
   }
 
   /** Claim a task from the bounty board */
-  public async claimTask(taskId: string, message?: string) {
-    return this.post('/api/tasks/claim', { taskId, message });
+  public async claimTask(taskId: string, message?: string): Promise<PlatformResult<TaskResponse>> {
+    return this.postQueueable('/api/tasks/claim', { taskId, message }, platformSchemas.task);
   }
 
   /** Submit completed work for a task */
-  public async submitTask(taskId: string, submission: string, workUrl?: string) {
-    return this.post('/api/tasks/submit', { taskId, submission, workUrl });
+  public async submitTask(taskId: string, submission: string, workUrl?: string): Promise<PlatformResult<TaskResponse>> {
+    return this.postQueueable('/api/tasks/submit', { taskId, submission, workUrl }, platformSchemas.task);
   }
 
   /** Get task categories and tags */
-  public async getTaskCategories() {
-    return this.get('/api/tasks/categories');
+  public async getTaskCategories(): Promise<PlatformResult<TaskCategoriesResponse>> {
+    return this.get('/api/tasks/categories', platformSchemas.taskCategories);
   }
 
   // ============= Knowledge Vault =============
 
   /** Search the knowledge vault */
-  public async searchKnowledge(query: string, tag?: string) {
+  public async searchKnowledge(query: string, tag?: string): Promise<PlatformResult<KnowledgeSearchResponse>> {
     const params = new URLSearchParams({ q: query });
     if (tag) params.set('tag', tag);
-    return this.get(`/api/knowledge/search?${params.toString()}`);
+    return this.get(`/api/knowledge/search?${params.toString()}`, platformSchemas.knowledgeSearch);
   }
 
   /** Read full knowledge entry by ID (builder+ for encrypted content) */
-  public async readKnowledge(id: string) {
-    return this.get(`/api/knowledge/read?id=${id}`);
+  public async readKnowledge(id: string): Promise<PlatformResult<KnowledgeEntryResponse>> {
+    return this.get(`/api/knowledge/read?id=${id}`, platformSchemas.knowledgeEntry);
   }
 
   /** Add knowledge to the vault */
-  public async addKnowledge(title: string, content: string, tags: string[] = []) {
-    return this.post('/api/knowledge/add', { title, content, tags });
+  public async addKnowledge(title: string, content: string, tags: string[] = []): Promise<PlatformResult<KnowledgeEntryResponse>> {
+    return this.postQueueable('/api/knowledge/add', { title, content, tags }, platformSchemas.knowledgeEntry);
   }
 
   /** Upvote a knowledge entry */
-  public async upvoteKnowledge(id: string) {
-    return this.post('/api/knowledge/upvote', { id });
+  public async upvoteKnowledge(id: string): Promise<PlatformResult<UpvoteResponse>> {
+    return this.post('/api/knowledge/upvote', { id }, platformSchemas.upvote);
   }
 
   /** Get trending knowledge entries */
-  public async getTrending(limit: number = 10) {
-    return this.get(`/api/knowledge/trending?limit=${limit}`);
+  public async getTrending(limit: number = 10): Promise<PlatformResult<KnowledgeTrendingResponse>> {
+    return this.get(`/api/knowledge/trending?limit=${limit}`, platformSchemas.knowledgeTrending);
   }
 
   // ============= Network Info =============
 
   /** Get platform stats */
-  public async getStats() {
-    return this.get('/api/stats');
+  public async getStats(): Promise<PlatformResult<PlatformStats>> {
+    return this.get('/api/stats', platformSchemas.stats);
   }
 
   /** Get leaderboard */
-  public async getLeaderboard() {
-    return this.get('/api/leaderboard');
+  public async getLeaderboard(): Promise<PlatformResult<LeaderboardResponse>> {
+    return this.get('/api/leaderboard', platformSchemas.leaderboard);
   }
 
   /** Get announcements */
-  public async getAnnouncements(limit: number = 10) {
-    return this.get(`/api/announcements?limit=${limit}`);
+  public async getAnnouncements(limit: number = 10): Promise<PlatformResult<AnnouncementsResponse>> {
+    return this.get(`/api/announcements?limit=${limit}`, platformSchemas.announcements);
   }
 
   /** Get your full agent profile with stats */
-  public async getProfile(agentId?: string) {
+  public async getProfile(agentId?: string): Promise<PlatformResult<ProfileResponse>> {
     const params = agentId ? `?agentId=${agentId}` : '';
-    return this.get(`/api/profile${params}`);
+    return this.get(`/api/profile${params}`, platformSchemas.profile);
   }
 
   /** List all agents in the network */
-  public async listAgents() {
-    return this.get('/api/agents');
+  public async listAgents(): Promise<PlatformResult<AgentsResponse>> {
+    return this.get('/api/agents', platformSchemas.agents);
   }
 
   // ============= Subscription & Billing =============
 
   /** Subscribe to a paid tier (builder/commander/founder) */
-  public async subscribe(tier: string) {
-    return this.post('/api/subscribe', { tier });
+  public async subscribe(tier: string): Promise<PlatformResult<SubscribeResponse>> {
+    return this.post('/api/subscribe', { tier }, platformSchemas.subscribe);
   }
 
   // ============= Webhooks (commander+ tier) =============
 
   /** Register a webhook to receive real-time notifications */
-  public async registerWebhook(url: string, events?: string[]) {
-    return this.post('/api/webhooks/register', { url, events });
+  public async registerWebhook(url: string, events?: string[]): Promise<PlatformResult<WebhookResponse>> {
+    return this.post('/api/webhooks/register', { url, events }, platformSchemas.webhook);
   }
 
   /** List your registered webhooks */
-  public async listWebhooks() {
-    return this.get('/api/webhooks');
+  public async listWebhooks(): Promise<PlatformResult<WebhooksResponse>> {
+    return this.get('/api/webhooks', platformSchemas.webhooks);
   }
 
   // ============= Moltbook Integration =============
 
   /** Cross-post GSN content to a Moltbook submolt (elevated+ only) */
-  public async moltbookCrosspost(title: string, body: string, submolt?: string) {
-    return this.post('/api/moltbook/crosspost', { title, body, submolt });
+  public async moltbookCrosspost(title: string, body: string, submolt?: string): Promise<PlatformResult<MoltbookPostResponse>> {
+    return this.post('/api/moltbook/crosspost', { title, body, submolt }, platformSchemas.moltbookPost);
   }
 
   /** Get Moltbook feed (trending by default) */
-  public async moltbookFeed(submolt?: string, sort: string = 'trending', limit: number = 20) {
+  public async moltbookFeed(submolt?: string, sort: string = 'trending', limit: number = 20): Promise<PlatformResult<MoltbookFeedResponse>> {
     const params = new URLSearchParams({ sort, limit: String(limit) });
     if (submolt) params.set('submolt', submolt);
-    return this.get(`/api/moltbook/feed?${params.toString()}`);
+    return this.get(`/api/moltbook/feed?${params.toString()}`, platformSchemas.moltbookFeed);
   }
 
   /** Search Moltbook */
-  public async moltbookSearch(query: string, type: string = 'posts') {
-    return this.get(`/api/moltbook/search?q=${encodeURIComponent(query)}&type=${type}`);
+  public async moltbookSearch(query: string, type: string = 'posts'): Promise<PlatformResult<MoltbookSearchResponse>> {
+    return this.get(`/api/moltbook/search?q=${encodeURIComponent(query)}&type=${type}`, platformSchemas.moltbookSearch);
   }
 
   /** Comment on a Moltbook post (elevated+ only) */
-  public async moltbookComment(postId: string, body: string) {
-    return this.post('/api/moltbook/comment', { postId, body });
+  public async moltbookComment(postId: string, body: string): Promise<PlatformResult<MoltbookActionResponse>> {
+    return this.post('/api/moltbook/comment', { postId, body }, platformSchemas.moltbookAction);
   }
 
   /** Follow an agent on Moltbook (elevated+ only) */
-  public async moltbookFollow(agentName: string) {
-    return this.post('/api/moltbook/follow', { agentName });
+  public async moltbookFollow(agentName: string): Promise<PlatformResult<MoltbookActionResponse>> {
+    return this.post('/api/moltbook/follow', { agentName }, platformSchemas.moltbookAction);
   }
 
   /** Upvote a Moltbook post (elevated+ only) */
-  public async moltbookUpvote(postId: string) {
-    return this.post('/api/moltbook/upvote', { postId });
+  public async moltbookUpvote(postId: string): Promise<PlatformResult<MoltbookActionResponse>> {
+    return this.post('/api/moltbook/upvote', { postId }, platformSchemas.moltbookAction);
   }
 
   /** Get Moltbook notifications (elevated+ only) */
-  public async moltbookNotifications() {
-    return this.get('/api/moltbook/notifications');
+  public async moltbookNotifications(): Promise<PlatformResult<MoltbookNotificationsResponse>> {
+    return this.get('/api/moltbook/notifications', platformSchemas.moltbookNotifications);
   }
 
   /** Get Moltbook profile stats */
-  public async moltbookProfile() {
-    return this.get('/api/moltbook/profile');
+  public async moltbookProfile(): Promise<PlatformResult<MoltbookProfileResponse>> {
+    return this.get('/api/moltbook/profile', platformSchemas.moltbookProfile);
   }
 
   // ============= System =============
 
   /** Check immunity status */
-  public async checkImmunity() {
-    return this.get('/api/immunity');
+  public async checkImmunity(): Promise<PlatformResult<ImmunityResponse>> {
+    return this.get('/api/immunity', platformSchemas.immunity);
   }
 
   /** Health check */
-  public async health() {
-    return this.get('/api/health');
+  public async health(): Promise<PlatformResult<HealthResponse>> {
+    return this.get('/api/health', platformSchemas.health);
+  }
+
+  // ============= Outbox =============
+
+  /** Get the outbox, if queuing is enabled */
+  public getOutbox(): GSNOutbox | undefined {
+    return this.outbox;
+  }
+
+  /** List calls waiting to be replayed */
+  public getQueuedCalls(): OutboxEntry[] {
+    return this.outbox ? this.outbox.list() : [];
+  }
+
+  /**
+   * Replay queued calls in order once health() succeeds.
+   * Stops at the first call that still cannot reach the platform.
+   */
+  public async flushOutbox(): Promise<OutboxFlushResult> {
+    const result: OutboxFlushResult = { replayed: 0, rejected: [], remaining: this.outbox?.size() || 0 };
+    if (!this.outbox || this.outbox.size() === 0) {
+      return result;
+    }
+
+    // Probe directly so a dead platform does not throw in throwOnError mode
+    const health = await this.send('GET', '/api/health');
+    if (!health.ok) {
+      this.logger.debug('Outbox flush skipped, platform unhealthy', { queued: result.remaining });
+      return result;
+    }
+
+    for (const entry of this.outbox.list()) {
+      const response = await this.send('POST', entry.path, entry.body, { 'x-idempotency-key': entry.idempotencyKey });
+      if (response.ok) {
+        this.outbox.remove(entry.id);
+        result.replayed++;
+      } else if (response.networkError || response.status >= 500) {
+        this.outbox.markAttempt(entry.id, this.toError(response, `POST ${entry.path}`).message);
+        break;
+      } else {
+        this.outbox.markAttempt(entry.id, this.toError(response, `POST ${entry.path}`).message);
+        this.outbox.remove(entry.id);
+        result.rejected.push(entry);
+        this.logger.warn(`Outbox entry rejected by platform: POST ${entry.path}`, { status: response.status, outboxId: entry.id });
+      }
+    }
+
+    result.remaining = this.outbox.size();
+    this.logger.info('Outbox flushed', { replayed: result.replayed, rejected: result.rejected.length, remaining: result.remaining });
+    return result;
   }
 
   // ============= HTTP Helpers =============
 
-  private async get(path: string): Promise<any> {
-    const url = `${this.baseUrl}${path}`;
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-      if (!response.ok) {
-        return { success: false, error: `HTTP ${response.status}: ${response.statusText}` };
+  private async get<T>(path: string, schema: Validator): Promise<PlatformResult<T>> {
+    const response = await this.send('GET', path);
+    return this.settle<T>(response, schema, `GET ${path}`);
+  }
+
+  private async post<T>(path: string, data: any, schema: Validator): Promise<PlatformResult<T>> {
+    const response = await this.send('POST', path, data);
+    return this.settle<T>(response, schema, `POST ${path}`);
+  }
+
+  /**
+   * POST a mutating call, queuing it in the outbox if the platform is unreachable.
+   * While earlier calls are still queued, new calls are queued behind them to keep order.
+   * Queued calls resolve with `queued: true` even when throwOnError is set.
+   */
+  private async postQueueable<T>(path: string, data: any, schema: Validator): Promise<PlatformResult<T>> {
+    if (!this.outbox) {
+      return this.post(path, data, schema);
+    }
+
+    const endpoint = `POST ${path}`;
+    const idempotencyKey = uuidv4();
+    if (this.outbox.size() > 0) {
+      const entry = this.outbox.enqueue(path, data, idempotencyKey);
+      const cause = new GSNNetworkError('Queued behind pending outbox entries', 'unreachable', endpoint);
+      return { success: false, error: cause.message, kind: cause.kind, cause, queued: true, outboxId: entry.id };
+    }
+
+    const response = await this.send('POST', path, data, { 'x-idempotency-key': idempotencyKey });
+    if (response.networkError) {
+      const cause = this.toError(response, endpoint);
+      const entry = this.outbox.enqueue(path, data, idempotencyKey, cause.message);
+      this.logger.warn(`Platform unreachable, queued ${endpoint}`, { outboxId: entry.id, reason: cause.message });
+      return { success: false, error: cause.message, kind: cause.kind, cause, queued: true, outboxId: entry.id };
+    }
+    return this.settle<T>(response, schema, endpoint);
+  }
+
+  /**
+   * Turn an HTTP result into a typed response or failure. 2xx bodies are checked
+   * against their schema; bodies that report `success: false` become failures.
+   */
+  private settle<T>(response: HttpResult, schema: Validator, endpoint: string): PlatformResult<T> {
+    if (!response.ok) {
+      return this.fail(this.toError(response, endpoint));
+    }
+
+    const body = response.body;
+    if (body && body.success === false) {
+      return this.fail(this.toError({ ...response, ok: false, message: `${endpoint} failed` }, endpoint));
+    }
+
+    const issues = validate(body, schema);
+    if (issues.length > 0) {
+      return this.fail(new GSNValidationError(issues, endpoint));
+    }
+    return body as T;
+  }
+
+  /**
+   * Build a failure for a typed error, or throw it in throwOnError mode
+   */
+  private fail(cause: GSNError): PlatformFailure {
+    if (this.throwOnError) {
+      throw cause;
+    }
+    return { success: false, error: cause.message, kind: cause.kind, cause };
+  }
+
+  /**
+   * Classify a failed HTTP result into the GSNError hierarchy
+   */
+  private toError(response: HttpResult, endpoint: string): GSNError {
+    if (response.networkError) {
+      return new GSNNetworkError(`Network error: ${response.message}`, response.networkReason, endpoint);
+    }
+
+    const body = response.body && typeof response.body === 'object' ? response.body : {};
+    const detail = typeof body.error === 'string' ? body.error : response.message;
+    const message = response.status >= 400 ? `HTTP ${response.status}: ${detail}` : detail;
+
+    const tierRestricted = body.requiredTier !== undefined
+      || ((response.status === 403 || response.status < 400) && TIER_HINT.test(detail));
+    if (tierRestricted) {
+      return new GSNTierError(message, { requiredTier: body.requiredTier, currentTier: body.tier, endpoint });
+    }
+
+    switch (response.status) {
+      case 401:
+      case 403:
+        return new GSNAuthError(message, response.status, endpoint);
+      case 404:
+        return new GSNNotFoundError(message, endpoint);
+      case 429:
+        return new GSNRateLimitError(message, response.retryAfterMs, endpoint);
+      default:
+        return new GSNError('http', message, { status: response.status, endpoint });
+    }
+  }
+
+  private async findHealthyUrl(): Promise<string | null> {
+    if (this.candidateUrls.length < 2 && this.urlResolvers.length === 0) {
+      return null;
+    }
+
+    const candidates = await resolvePlatformUrls(this.candidateUrls, this.urlResolvers, this.logger);
+    for (const candidate of candidates.filter(url => url !== this.baseUrl)) {
+      const probe = await this.sendOnce('GET', '/api/health', undefined, {}, candidate);
+      if (probe.ok) {
+        this.setBaseUrl(candidate);
+        return candidate;
       }
-      return response.json();
-    } catch (e: any) {
-      return { success: false, error: `Network error: ${e.message}` };
+    }
+    this.logger.warn('No healthy platform URL found', { tried: candidates.length });
+    return null;
+  }
+
+  /**
+   * Send a request, failing over to another platform URL and trying once more when the
+   * current one is unreachable. Timed-out non-idempotent calls are not repeated.
+   */
+  private async send(method: 'GET' | 'POST', path: string, data?: any, extraHeaders: Record<string, string> = {}): Promise<HttpResult> {
+    const result = await this.sendWithPolicy(method, path, data, extraHeaders);
+    const repeatable = method === 'GET' || 'x-idempotency-key' in extraHeaders || result.networkReason !== 'timeout';
+    if (!result.networkError || !repeatable || !(await this.failover())) {
+      return result;
+    }
+    return this.sendWithPolicy(method, path, data, extraHeaders);
+  }
+
+  /**
+   * Send a request under the request policy. Idempotent calls (GETs and keyed POSTs)
+   * are retried with backoff on network errors and transient statuses.
+   */
+  private async sendWithPolicy(method: 'GET' | 'POST', path: string, data?: any, extraHeaders: Record<string, string> = {}): Promise<HttpResult> {
+    if (!this.breaker.canRequest()) {
+      return {
+        ok: false,
+        networkError: true,
+        networkReason: 'circuit-open',
+        status: 0,
+        body: null,
+        message: 'circuit open, platform calls are short-circuited',
+      };
+    }
+
+    const idempotent = method === 'GET' || 'x-idempotency-key' in extraHeaders;
+    const maxAttempts = idempotent ? this.policy.maxRetries + 1 : 1;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.sendOnce(method, path, data, extraHeaders);
+      const transient = result.networkError || this.policy.retryOnStatus.includes(result.status);
+      const delay = result.retryAfterMs ?? computeBackoff(attempt, this.policy);
+      if (!transient || attempt + 1 >= maxAttempts || delay > this.policy.backoffMaxMs) {
+        this.settleBreaker(result, `${method} ${path}`);
+        return result;
+      }
+
+      this.logger.debug(`Retrying ${method} ${path} in ${delay}ms`, { attempt: attempt + 1, status: result.status });
+
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
 
-  private async post(path: string, data: any): Promise<any> {
-    const url = `${this.baseUrl}${path}`;
+  /**
+   * Feed the final outcome of a call to the circuit breaker: network errors and 5xx count as
+   * failures, any other response as success. Every call settles a half-open trial.
+   */
+  private settleBreaker(result: HttpResult, endpoint: string): void {
+    if (result.networkError || result.status >= 500) {
+      this.breaker.recordFailure();
+      if (this.breaker.getState() === 'open') {
+        this.logger.warn('Circuit opened, short-circuiting platform calls', { endpoint });
+      }
+    } else {
+      this.breaker.recordSuccess();
+    }
+  }
+
+  private async sendOnce(
+    method: 'GET' | 'POST',
+    path: string,
+    data: any,
+    extraHeaders: Record<string, string>,
+    baseUrl: string = this.baseUrl
+  ): Promise<HttpResult> {
+    const url = `${baseUrl}${path}`;
+    const headers = method === 'POST'
+      ? { ...this.getHeaders(), 'Content-Type': 'application/json', ...extraHeaders }
+      : { ...this.getHeaders(), ...extraHeaders };
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
     try {
       const response = await fetch(url, {
-        method: 'POST',
-        headers: { ...this.getHeaders(), 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
+        method,
+        headers,
+        body: method === 'POST' ? JSON.stringify(data) : undefined,
+        signal: controller.signal,
       });
-      if (!response.ok) {
-        return { success: false, error: `HTTP ${response.status}: ${response.statusText}` };
-      }
-      return response.json();
+      const body = await response.json().catch(() => null);
+      return {
+        ok: response.ok,
+        networkError: false,
+        status: response.status,
+        body,
+        message: response.statusText,
+        retryAfterMs: response.ok ? undefined : parseRetryAfter(response.headers.get('retry-after')),
+      };
     } catch (e: any) {
-      return { success: false, error: `Network error: ${e.message}` };
+      const timedOut = controller.signal.aborted;
+      return {
+        ok: false,
+        networkError: true,
+        networkReason: timedOut ? 'timeout' : 'unreachable',
+        status: 0,
+        body: null,
+        message: timedOut ? `request timed out after ${this.policy.timeoutMs}ms` : e.message,
+      };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -0,0 +1,330 @@
+/**
+ * GSN Query Module
+ * Boolean tag/field query language evaluated against inverted indexes
+ *
+ * Syntax:
+ *   postgres AND lang:*             tag match; a trailing * matches a tag prefix
+ *   (db OR cache) -deprecated       implicit AND between terms; NOT or a leading - negates
+ *   agentId:alice status:open       exact field match
+ *   confidence>=0.8                 comparisons: > >= < <= = on confidence, createdAt/timestamp
+ *   createdAt:2025-01-01..2025-02-01   inclusive range (either side may be left open)
+ *   timestamp>-7d                   relative time: -30m, -24h, -7d from now
+ */
+
+import { QueryNode, QueryFields } from './types';
+import { GSNValidationError } from './gsn-errors';
+
+type NumericField = 'createdAt' | 'confidence';
+
+const FIELD_ALIASES: Record<string, 'agentId' | 'status' | NumericField> = {
+  agentid: 'agentId',
+  agent: 'agentId',
+  status: 'status',
+  createdat: 'createdAt',
+  timestamp: 'createdAt',
+  confidence: 'confidence',
+};
+
+const UNITS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+
+// ============= Parsing =============
+
+/**
+ * Parse a query string into a QueryNode tree. Throws GSNValidationError on syntax errors.
+ */
+export function parseQuery(query: string, now: number = Date.now()): QueryNode {
+  const tokens = lex(query);
+  let pos = 0;
+
+  const peek = (): string | undefined => tokens[pos];
+  const fail = (message: string): never => {
+    throw new GSNValidationError([`${message} in "${query}"`], undefined, 'query');
+  };
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (peek()?.toUpperCase() === 'OR') {
+      pos++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { op: 'or', nodes };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseNot()];
+    for (let next = peek(); next !== undefined && next !== ')' && next.toUpperCase() !== 'OR'; next = peek()) {
+      if (next.toUpperCase() === 'AND') pos++;
+      nodes.push(parseNot());
+    }
+    return nodes.length === 1 ? nodes[0] : { op: 'and', nodes };
+  };
+
+  const parseNot = (): QueryNode => {
+    const token = peek();
+    if (token?.toUpperCase() === 'NOT') {
+      pos++;
+      return { op: 'not', node: parseNot() };
+    }
+    if (token && token.length > 1 && token.startsWith('-')) {
+      tokens[pos] = token.slice(1);
+      return { op: 'not', node: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[pos++];
+    if (token === undefined) return fail('Unexpected end of query');
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[pos++] !== ')') fail('Missing )');
+      return node;
+    }
+    if (token === ')' || ['AND', 'OR', 'NOT'].includes(token.toUpperCase())) {
+      return fail(`Unexpected "${token}"`);
+    }
+    return parseTerm(token, now, fail);
+  };
+
+  const root = parseOr();
+  if (pos < tokens.length) fail(`Unexpected "${tokens[pos]}"`);
+  return root;
+}
+
+function lex(query: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*(\(|\)|"(?:[^"\\]|\\.)*"|[^\s()]+)/gy;
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    tokens.push(match[1]);
+    end = pattern.lastIndex;
+  }
+  if (query.slice(end).trim()) {
+    throw new GSNValidationError([`Unterminated quote in "${query}"`], undefined, 'query');
+  }
+  return tokens;
+}
+
+function parseTerm(token: string, now: number, fail: (message: string) => never): QueryNode {
+  if (token.startsWith('"')) {
+    try {
+      return { op: 'tag', tag: JSON.parse(token) };
+    } catch {
+      return fail(`Invalid quoted tag ${token}`);
+    }
+  }
+
+  const comparison = /^([A-Za-z]+)(>=|<=|>|<|=)(.+)$/.exec(token);
+  if (comparison && FIELD_ALIASES[comparison[1].toLowerCase()]) {
+    const field = FIELD_ALIASES[comparison[1].toLowerCase()];
+    if (field === 'agentId' || field === 'status') {
+      return comparison[2] === '=' ? { op: 'field', field, value: comparison[3] } : fail(`Cannot compare ${field}`);
+    }
+    const value = parseNumber(comparison[3], field, now, fail);
+    switch (comparison[2]) {
+      case '>': return { op: 'range', field, min: value, minExclusive: true };
+      case '>=': return { op: 'range', field, min: value };
+      case '<': return { op: 'range', field, max: value, maxExclusive: true };
+      case '<=': return { op: 'range', field, max: value };
+      default: return { op: 'range', field, min: value, max: value };
+    }
+  }
+
+  const colon = token.indexOf(':');
+  const field = colon > 0 ? FIELD_ALIASES[token.slice(0, colon).toLowerCase()] : undefined;
+  if (field) {
+    const value = token.slice(colon + 1);
+    if (field === 'agentId' || field === 'status') {
+      return { op: 'field', field, value };
+    }
+    const range = /^(.*)\.\.(.*)$/.exec(value);
+    if (!range) {
+      const exact = parseNumber(value, field, now, fail);
+      return { op: 'range', field, min: exact, max: exact };
+    }
+    return {
+      op: 'range',
+      field,
+      min: range[1] ? parseNumber(range[1], field, now, fail) : undefined,
+      max: range[2] ? parseNumber(range[2], field, now, fail) : undefined,
+    };
+  }
+
+  return token.endsWith('*') ? { op: 'prefix', prefix: token.slice(0, -1) } : { op: 'tag', tag: token };
+}
+
+function parseNumber(value: string, field: NumericField, now: number, fail: (message: string) => never): number {
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (field === 'createdAt') {
+    const relative = /^-(\d+)([smhdw])$/.exec(value);
+    if (relative) return now - Number(relative[1]) * UNITS[relative[2]];
+    const date = Date.parse(value);
+    if (!isNaN(date)) return date;
+  }
+  return fail(`Invalid ${field} value "${value}"`);
+}
+
+// ============= Index =============
+
+/**
+ * Inverted indexes over tags, agent IDs and statuses plus sorted numeric columns,
+ * kept up to date with upsert()/remove() and queried without scanning records
+ */
+export class GSNQueryIndex {
+  private records: Map<string, QueryFields> = new Map();
+  private tags: Map<string, Set<string>> = new Map();
+  private agents: Map<string, Set<string>> = new Map();
+  private statuses: Map<string, Set<string>> = new Map();
+  private numeric: Record<NumericField, Array<[number, string]>> = { createdAt: [], confidence: [] };
+  private order: Map<string, number> = new Map(); // record ID -> first-indexed sequence, breaks createdAt ties
+  private sequence: number = 0;
+
+  public upsert(id: string, fields: QueryFields): void {
+    const order = this.order.get(id) ?? ++this.sequence;
+    this.remove(id);
+    this.order.set(id, order);
+    const stored: QueryFields = { ...fields, tags: Array.from(new Set(fields.tags)) };
+    this.records.set(id, stored);
+    stored.tags.forEach(tag => addTo(this.tags, tag, id));
+    if (stored.agentId !== undefined) addTo(this.agents, stored.agentId, id);
+    if (stored.status !== undefined) addTo(this.statuses, stored.status, id);
+    (['createdAt', 'confidence'] as NumericField[]).forEach(field => {
+      const value = stored[field];
+      if (value !== undefined) {
+        const column = this.numeric[field];
+        column.splice(upperBound(column, value), 0, [value, id]);
+      }
+    });
+  }
+
+  public remove(id: string): boolean {
+    const stored = this.records.get(id);
+    if (!stored) return false;
+
+    this.records.delete(id);
+    this.order.delete(id);
+    stored.tags.forEach(tag => removeFrom(this.tags, tag, id));
+    if (stored.agentId !== undefined) removeFrom(this.agents, stored.agentId, id);
+    if (stored.status !== undefined) removeFrom(this.statuses, stored.status, id);
+    (['createdAt', 'confidence'] as NumericField[]).forEach(field => {
+      const value = stored[field];
+      if (value !== undefined) {
+        const column = this.numeric[field];
+        for (let i = lowerBound(column, value); i < column.length && column[i][0] === value; i++) {
+          if (column[i][1] === id) {
+            column.splice(i, 1);
+            break;
+          }
+        }
+      }
+    });
+    return true;
+  }
+
+  public clear(): void {
+    this.records.clear();
+    this.tags.clear();
+    this.agents.clear();
+    this.statuses.clear();
+    this.order.clear();
+    this.numeric = { createdAt: [], confidence: [] };
+  }
+
+  /**
+   * IDs matching a query string or parsed tree, oldest first
+   */
+  public query(query: string | QueryNode): string[] {
+    const node = typeof query === 'string' ? parseQuery(query) : query;
+    const createdAt = (id: string) => this.records.get(id)!.createdAt ?? Infinity;
+    return Array.from(this.evaluate(node)).sort((a, b) =>
+      createdAt(a) - createdAt(b) || this.order.get(a)! - this.order.get(b)!
+    );
+  }
+
+  private evaluate(node: QueryNode): Set<string> {
+    switch (node.op) {
+      case 'tag':
+        return new Set(this.tags.get(node.tag));
+      case 'prefix': {
+        const ids = new Set<string>();
+        this.tags.forEach((tagged, tag) => {
+          if (tag.startsWith(node.prefix)) tagged.forEach(id => ids.add(id));
+        });
+        return ids;
+      }
+      case 'field':
+        return new Set((node.field === 'agentId' ? this.agents : this.statuses).get(node.value));
+      case 'range':
+        return this.evaluateRange(node);
+      case 'and': {
+        const sets = node.nodes.map(child => this.evaluate(child)).sort((a, b) => a.size - b.size);
+        return new Set(Array.from(sets[0]).filter(id => sets.every(set => set.has(id))));
+      }
+      case 'or': {
+        const ids = new Set<string>();
+        node.nodes.forEach(child => this.evaluate(child).forEach(id => ids.add(id)));
+        return ids;
+      }
+      case 'not': {
+        const excluded = this.evaluate(node.node);
+        return new Set(Array.from(this.records.keys()).filter(id => !excluded.has(id)));
+      }
+    }
+  }
+
+  private evaluateRange(node: Extract<QueryNode, { op: 'range' }>): Set<string> {
+    const column = this.numeric[node.field];
+    const start = node.min === undefined ? 0
+      : node.minExclusive ? upperBound(column, node.min) : lowerBound(column, node.min);
+    const ids = new Set<string>();
+    for (let i = start; i < column.length; i++) {
+      const value = column[i][0];
+      if (node.max !== undefined && (value > node.max || (node.maxExclusive && value === node.max))) break;
+      ids.add(column[i][1]);
+    }
+    return ids;
+  }
+}
+
+function addTo(index: Map<string, Set<string>>, key: string, id: string): void {
+  const ids = index.get(key) || new Set<string>();
+  ids.add(id);
+  index.set(key, ids);
+}
+
+function removeFrom(index: Map<string, Set<string>>, key: string, id: string): void {
+  const ids = index.get(key);
+  ids?.delete(id);
+  if (ids && ids.size === 0) index.delete(key);
+}
+
+/**
+ * First position in a sorted column whose value is >= `value`
+ */
+function lowerBound(column: Array<[number, string]>, value: number): number {
+  let lo = 0;
+  let hi = column.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (column[mid][0] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * First position in a sorted column whose value is > `value` (inserting there keeps ties in arrival order)
+ */
+function upperBound(column: Array<[number, string]>, value: number): number {
+  let lo = 0;
+  let hi = column.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (column[mid][0] <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
@@ -0,0 +1,100 @@
+/**
+ * GSN Request Policy Module
+ * Backoff, Retry-After parsing and circuit breaking for platform HTTP calls
+ */
+
+import { RequestPolicy, CircuitState } from './types';
+
+export const DEFAULT_REQUEST_POLICY: Required<RequestPolicy> = {
+  timeoutMs: 10000,
+  maxRetries: 2,
+  backoffBaseMs: 250,
+  backoffMaxMs: 10000,
+  retryOnStatus: [429, 502, 503, 504],
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetMs: 30000,
+};
+
+/**
+ * Merge a partial policy over the defaults
+ */
+export function resolveRequestPolicy(policy: RequestPolicy = {}): Required<RequestPolicy> {
+  const defined: RequestPolicy = Object.fromEntries(
+    Object.entries(policy).filter(([, value]) => value !== undefined)
+  );
+  return { ...DEFAULT_REQUEST_POLICY, ...defined };
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)]
+ */
+export function computeBackoff(attempt: number, policy: Required<RequestPolicy>, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.backoffMaxMs, policy.backoffBaseMs * Math.pow(2, attempt));
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into ms from now
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Opens after `threshold` consecutive failures and short-circuits calls until
+ * `resetMs` has passed; then lets one trial call through (half-open).
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private openedAt: number = 0;
+  private threshold: number;
+  private resetMs: number;
+
+  constructor(threshold: number, resetMs: number) {
+    this.threshold = threshold;
+    this.resetMs = resetMs;
+  }
+
+  /**
+   * Whether a call may be attempted now
+   */
+  public canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.resetMs) {
+      this.state = 'half-open';
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  public recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  public recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.threshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  public getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+}
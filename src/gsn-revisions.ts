@@ -0,0 +1,105 @@
+/**
+ * GSN Revisions Module
+ * Bounded per-record revision history with field-level diffs, shared by memory and insights
+ */
+
+import { Revision, FieldChange, RevisionDiff, StorageAdapter } from './types';
+
+export interface RevisionHistoryConfig {
+  /** Storage collection the history is persisted to (record ID → revisions) */
+  collection: string;
+  storage?: StorageAdapter;
+  /** Revisions kept per record, oldest dropped first; 0 keeps none (default: 20) */
+  maxRevisions?: number;
+  /** Bookkeeping fields left out of diffs */
+  ignoreFields?: string[];
+}
+
+export class GSNRevisionHistory<T extends { id: string; revision?: number }> {
+  private revisions: Map<string, Revision<T>[]> = new Map(); // record ID -> revisions, oldest first
+  private collection: string;
+  private storage?: StorageAdapter;
+  private maxRevisions: number;
+  private ignoreFields: Set<string>;
+
+  constructor(config: RevisionHistoryConfig) {
+    this.collection = config.collection;
+    this.storage = config.storage;
+    this.maxRevisions = config.maxRevisions ?? 20;
+    this.ignoreFields = new Set(['revision', ...(config.ignoreFields || [])]);
+    if (this.storage) {
+      this.revisions = this.storage.load<Revision<T>[]>(this.collection);
+    }
+  }
+
+  /**
+   * Append the current state of a record as its latest revision
+   */
+  public record(record: T, agentId: string, timestamp: number = Date.now()): void {
+    if (this.maxRevisions <= 0) {
+      return;
+    }
+    const list = (this.revisions.get(record.id) || []).filter(r => r.revision !== record.revision);
+    list.push({ revision: record.revision ?? 0, agentId, timestamp, record: { ...record } });
+    list.sort((a, b) => a.revision - b.revision);
+    const kept = list.slice(-this.maxRevisions);
+    this.revisions.set(record.id, kept);
+    this.storage?.put(this.collection, record.id, kept);
+  }
+
+  /**
+   * Revisions of a record still in history, oldest first
+   */
+  public list(id: string): Revision<T>[] {
+    return [...(this.revisions.get(id) || [])];
+  }
+
+  public get(id: string, revision: number): Revision<T> | undefined {
+    return this.revisions.get(id)?.find(r => r.revision === revision);
+  }
+
+  /**
+   * Field-level changes between two revisions, or null when either has left the history
+   */
+  public diff(id: string, from: number, to: number): RevisionDiff | null {
+    const a = this.get(id, from);
+    const b = this.get(id, to);
+    if (!a || !b) {
+      return null;
+    }
+    return { id, from, to, changes: diffRecords(a.record, b.record, this.ignoreFields) };
+  }
+
+  public remove(id: string): void {
+    if (this.revisions.delete(id)) {
+      this.storage?.delete(this.collection, id);
+    }
+  }
+
+  /**
+   * Forget all history; `persisted` also clears the storage collection
+   */
+  public clear(persisted: boolean = false): void {
+    this.revisions.clear();
+    if (persisted) {
+      this.storage?.clear(this.collection);
+    }
+  }
+}
+
+/**
+ * Top-level fields whose values differ between two versions of a record (compared structurally)
+ */
+export function diffRecords<T extends object>(before: T, after: T, ignore: Set<string> = new Set()): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    if (ignore.has(field)) return;
+    const from = (before as Record<string, unknown>)[field];
+    const to = (after as Record<string, unknown>)[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  });
+  return changes;
+}
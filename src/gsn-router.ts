@@ -0,0 +1,217 @@
+/**
+ * GSN Router Module
+ * Picks an assignee for a task by capability, current load and a pluggable strategy
+ */
+
+import { Task, RoutingCandidate, RoutingDecision } from './types';
+import { GSNCoordinator } from './gsn-coordinator';
+import { canTransition } from './gsn-task-lifecycle';
+import { GSNPlatformClient, isPlatformFailure } from './gsn-platform-client';
+
+/**
+ * Chooses one agent among the eligible candidates for a task
+ */
+export interface RoutingStrategy {
+  name: string;
+  select(candidates: RoutingCandidate[], task: Task): RoutingCandidate | undefined;
+}
+
+export interface RouterConfig {
+  /** Strategy used by route()/selectAgent() (default: least-loaded) */
+  strategy?: RoutingStrategy | 'round-robin' | 'least-loaded' | 'reputation';
+  /** Skip agents that already carry this many active tasks */
+  maxLoadPerAgent?: number;
+}
+
+interface RoutableAgent {
+  agentId: string;
+  capabilities: string[];
+  reputation?: number;
+}
+
+const ACTIVE_STATUSES = new Set(['assigned', 'claimed', 'in-progress']);
+
+/**
+ * Cycle through eligible agents in agent ID order
+ */
+export function roundRobinStrategy(): RoutingStrategy {
+  let lastAgentId: string | undefined;
+  return {
+    name: 'round-robin',
+    select(candidates) {
+      if (candidates.length === 0) return undefined;
+      const sorted = [...candidates].sort((a, b) => a.agentId.localeCompare(b.agentId));
+      const next = sorted.find(c => lastAgentId === undefined || c.agentId.localeCompare(lastAgentId) > 0) || sorted[0];
+      lastAgentId = next.agentId;
+      return next;
+    },
+  };
+}
+
+/**
+ * Pick the agent with the fewest active tasks; ties go to the higher reputation
+ */
+export function leastLoadedStrategy(): RoutingStrategy {
+  return {
+    name: 'least-loaded',
+    select(candidates) {
+      return [...candidates].sort((a, b) =>
+        a.load - b.load || (b.reputation ?? 0) - (a.reputation ?? 0) || a.agentId.localeCompare(b.agentId)
+      )[0];
+    },
+  };
+}
+
+/**
+ * Pick the agent with the highest leaderboard reputation; ties go to the lower load
+ */
+export function reputationStrategy(): RoutingStrategy {
+  return {
+    name: 'reputation',
+    select(candidates) {
+      return [...candidates].sort((a, b) =>
+        (b.reputation ?? 0) - (a.reputation ?? 0) || a.load - b.load || a.agentId.localeCompare(b.agentId)
+      )[0];
+    },
+  };
+}
+
+export class GSNTaskRouter {
+  private coordinator: GSNCoordinator;
+  private agents: Map<string, RoutableAgent> = new Map();
+  private strategy: RoutingStrategy;
+  private maxLoadPerAgent?: number;
+
+  constructor(coordinator: GSNCoordinator, config: RouterConfig = {}) {
+    this.coordinator = coordinator;
+    this.strategy = resolveStrategy(config.strategy);
+    this.maxLoadPerAgent = config.maxLoadPerAgent;
+  }
+
+  /**
+   * Make an agent available for routing, or update its capabilities/reputation
+   */
+  public registerAgent(agentId: string, capabilities: string[] = [], reputation?: number): void {
+    const existing = this.agents.get(agentId);
+    this.agents.set(agentId, {
+      agentId,
+      capabilities: capabilities.map(c => c.toLowerCase()),
+      reputation: reputation ?? existing?.reputation,
+    });
+  }
+
+  /**
+   * Stop routing tasks to an agent
+   */
+  public unregisterAgent(agentId: string): boolean {
+    return this.agents.delete(agentId);
+  }
+
+  /**
+   * Load agents from the platform's agent list and reputations from the leaderboard.
+   * Returns false if the agent list could not be fetched.
+   */
+  public async refreshAgents(platform: GSNPlatformClient): Promise<boolean> {
+    const agents = await platform.listAgents();
+    if (isPlatformFailure(agents)) {
+      return false;
+    }
+    agents.agents.forEach(agent => this.registerAgent(agent.id, agent.capabilities, agent.reputation));
+
+    const leaderboard = await platform.getLeaderboard();
+    if (!isPlatformFailure(leaderboard)) {
+      leaderboard.leaderboard.forEach(entry => {
+        const agent = this.agents.get(entry.agentId);
+        if (agent) agent.reputation = entry.reputation;
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Switch the scoring strategy
+   */
+  public setStrategy(strategy: RouterConfig['strategy']): void {
+    this.strategy = resolveStrategy(strategy);
+  }
+
+  /**
+   * Number of assigned, claimed or in-progress tasks held by an agent
+   */
+  public getLoad(agentId: string): number {
+    return this.coordinator.getAgentTasks(agentId).filter(t => ACTIVE_STATUSES.has(t.status)).length;
+  }
+
+  /**
+   * Get routable agents with their current load
+   */
+  public getCandidates(): RoutingCandidate[] {
+    return Array.from(this.agents.values()).map(agent => ({ ...agent, load: this.getLoad(agent.agentId) }));
+  }
+
+  /**
+   * Decide who should take a task without assigning it. Returns null when no agent qualifies.
+   * @param exclude Agent IDs that must not be picked (e.g. the holder of an expired lease)
+   */
+  public selectAgent(task: Task, exclude: string[] = []): RoutingDecision | null {
+    const required = (task.requiredCapabilities || []).map(c => c.toLowerCase());
+    const eligible = this.getCandidates().filter(candidate =>
+      !exclude.includes(candidate.agentId) &&
+      required.every(cap => candidate.capabilities.includes(cap)) &&
+      (this.maxLoadPerAgent === undefined || candidate.load < this.maxLoadPerAgent)
+    );
+
+    const chosen = this.strategy.select(eligible, task);
+    if (!chosen) {
+      return null;
+    }
+
+    return {
+      agentId: chosen.agentId,
+      strategy: this.strategy.name,
+      eligible: eligible.map(c => c.agentId),
+      load: chosen.load,
+      reputation: chosen.reputation,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Pick an assignee and assign the task to it, recording the decision in the assignment history.
+   * Returns null when the task is unknown, cannot move to `assigned` (blocked or terminal) or no agent qualifies.
+   */
+  public route(taskId: string, message?: string): RoutingDecision | null {
+    const task = this.coordinator.getTask(taskId);
+    if (!task || !canTransition(task.status, 'assigned')) {
+      return null;
+    }
+
+    const decision = this.selectAgent(task);
+    if (!decision) {
+      return null;
+    }
+
+    this.coordinator.assignTask(taskId, decision.agentId, message, decision);
+    return decision;
+  }
+
+  /**
+   * Forget all registered agents
+   */
+  public dispose(): void {
+    this.agents.clear();
+  }
+}
+
+function resolveStrategy(strategy: RouterConfig['strategy'] = 'least-loaded'): RoutingStrategy {
+  switch (strategy) {
+    case 'round-robin':
+      return roundRobinStrategy();
+    case 'least-loaded':
+      return leastLoadedStrategy();
+    case 'reputation':
+      return reputationStrategy();
+    default:
+      return strategy;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * GSN Schemas Module
+ * Runtime schemas for platform API responses (see the response types in types.ts)
+ */
+
+import { v } from './gsn-validation';
+
+const ok = v.literal(true);
+const optionalString = v.optional(v.string());
+const optionalNumber = v.optional(v.number());
+const stringList = v.array(v.string());
+
+const announcement = v.object({
+  id: v.string(),
+  title: v.string(),
+  content: v.string(),
+  created: v.string(),
+});
+
+const message = v.object({
+  id: v.string(),
+  content: v.string(),
+  subject: optionalString,
+  channelId: optionalString,
+  fromAgentId: optionalString,
+  fromAgentName: optionalString,
+  created: v.string(),
+});
+
+const bountyTask = v.object({
+  id: v.string(),
+  title: v.string(),
+  description: optionalString,
+  reward: v.number(),
+  category: optionalString,
+  priority: optionalString,
+  status: v.string(),
+  tags: v.optional(stringList),
+  deadline: optionalString,
+});
+
+const knowledgeEntry = v.object({
+  id: v.string(),
+  title: v.string(),
+  content: optionalString,
+  tags: stringList,
+  upvotes: optionalNumber,
+  views: optionalNumber,
+});
+
+const moltbookPost = v.object({
+  id: v.string(),
+  title: v.string(),
+  body: optionalString,
+  upvotes: optionalNumber,
+});
+
+const moltbookAgent = v.object({
+  name: v.string(),
+  karma: optionalNumber,
+  followers: optionalNumber,
+});
+
+const webhook = v.object({
+  id: v.string(),
+  url: v.string(),
+  events: stringList,
+});
+
+const snippet = v.object({
+  id: v.string(),
+  agentId: v.string(),
+  content: v.string(),
+  timestamp: v.number(),
+  tags: stringList,
+  revision: v.optional(v.number()),
+  clock: v.optional(v.record(v.number())),
+});
+
+const insight = v.object({
+  id: v.string(),
+  agentId: v.string(),
+  title: v.string(),
+  content: v.string(),
+  tags: stringList,
+  confidence: v.number(),
+  createdAt: v.number(),
+  lastUpdated: v.number(),
+  revision: v.optional(v.number()),
+  clock: v.optional(v.record(v.number())),
+});
+
+export const platformSchemas = {
+  register: v.object({
+    success: v.boolean(),
+    agentId: optionalString,
+    apiKey: optionalString,
+    tier: optionalString,
+    channels: v.optional(v.array(v.object({ id: v.string(), name: v.string(), description: v.string() }))),
+  }),
+  heartbeat: v.object({
+    success: v.boolean(),
+    ack: v.boolean(),
+    pendingTasks: v.optional(v.array(v.object({
+      id: v.string(),
+      title: v.string(),
+      reward: v.number(),
+      priority: v.string(),
+      category: optionalString,
+      tags: v.optional(v.array(v.string())),
+    }))),
+    announcements: v.optional(v.array(announcement)),
+  }),
+  sync: v.object({
+    success: v.boolean(),
+    pushed: v.object({ snippets: v.number(), tasks: v.number(), insights: v.number(), stale: v.optional(stringList) }),
+    pulled: v.object({
+      snippets: v.optional(v.array(snippet)),
+      insights: v.optional(v.array(insight)),
+      tasks: v.optional(v.array(v.object({
+        id: v.string(),
+        title: v.string(),
+        reward: v.number(),
+        priority: v.string(),
+        category: optionalString,
+      }))),
+      announcements: v.optional(v.array(announcement)),
+    }),
+  }),
+  sendMessage: v.object({ success: ok, messageId: optionalString }),
+  messages: v.object({ success: ok, messages: v.array(message) }),
+  inbox: v.object({ success: ok, messages: v.array(message), unread: optionalNumber }),
+  task: v.object({ success: ok, task: bountyTask }),
+  tasks: v.object({ success: ok, tasks: v.array(bountyTask) }),
+  taskCategories: v.object({ success: ok, categories: stringList, popularTags: v.optional(stringList) }),
+  knowledgeSearch: v.object({ success: ok, results: v.array(knowledgeEntry) }),
+  knowledgeEntry: v.object({ success: ok, entry: knowledgeEntry }),
+  knowledgeTrending: v.object({ success: ok, entries: v.array(knowledgeEntry) }),
+  upvote: v.object({ success: ok, upvotes: optionalNumber }),
+  stats: v.object({ success: ok, agents: optionalNumber, tasks: optionalNumber, knowledge: optionalNumber }),
+  leaderboard: v.object({
+    success: ok,
+    leaderboard: v.array(v.object({ agentId: v.string(), name: v.string(), reputation: v.number() })),
+  }),
+  announcements: v.object({ success: ok, announcements: v.array(announcement) }),
+  profile: v.object({
+    success: ok,
+    profile: v.object({
+      agentId: v.string(),
+      name: v.string(),
+      tier: v.string(),
+      reputation: v.number(),
+      tasksCompleted: v.number(),
+      capabilities: v.optional(stringList),
+    }),
+  }),
+  agents: v.object({
+    success: ok,
+    agents: v.array(v.object({ id: v.string(), name: v.string(), capabilities: v.optional(stringList) })),
+  }),
+  subscribe: v.object({ success: ok, tier: v.string(), checkoutUrl: optionalString }),
+  webhook: v.object({ success: ok, webhook }),
+  webhooks: v.object({ success: ok, webhooks: v.array(webhook) }),
+  moltbookPost: v.object({ success: ok, post: moltbookPost }),
+  moltbookFeed: v.object({ success: ok, posts: v.array(moltbookPost) }),
+  moltbookSearch: v.object({ success: ok, posts: v.optional(v.array(moltbookPost)), agents: v.optional(v.array(moltbookAgent)) }),
+  moltbookAction: v.object({ success: ok, id: optionalString, message: optionalString }),
+  moltbookNotifications: v.object({
+    success: ok,
+    notifications: v.array(v.object({ id: v.string(), type: v.string(), content: v.string() })),
+  }),
+  moltbookProfile: v.object({ success: ok, profile: moltbookAgent }),
+  immunity: v.object({ success: ok, immune: v.boolean() }),
+  health: v.object({ status: v.string(), version: optionalString, uptime: optionalNumber }),
+};
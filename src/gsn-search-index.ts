@@ -0,0 +1,302 @@
+/**
+ * GSN Search Index Module
+ * Local ranked retrieval: tokenization, stemming, BM25 and optional embedding similarity
+ */
+
+import { EmbeddingFunction, SearchHit, SearchOptions, ScoreExplanation, GSNLogger } from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+
+export interface SearchIndexConfig {
+  /** Turns text into a vector; enables cosine similarity ranking */
+  embed?: EmbeddingFunction;
+  /** Share of the final score taken by cosine similarity when `embed` is set (default: 0.5) */
+  embeddingWeight?: number;
+  /** BM25 term-frequency saturation (default: 1.2) */
+  k1?: number;
+  /** BM25 length normalization (default: 0.75) */
+  b?: number;
+  logger?: GSNLogger;
+}
+
+export interface SearchDocument {
+  id: string;
+  text: string;
+  tags?: string[];
+}
+
+interface IndexedDocument {
+  tags: string[];
+  length: number;
+  terms: Map<string, number>;
+  /** Index-wide upsert counter, so embeddings of replaced versions are discarded */
+  revision: number;
+  embedding?: number[];
+}
+
+/** Query terms this long or longer also match indexed terms they prefix ("postgres" → "postgresql") */
+const MIN_PREFIX_LENGTH = 4;
+const PREFIX_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+]);
+
+/**
+ * Lowercase, split on anything that is not a letter or digit, drop stopwords and stem
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Light English suffix stripper modelled on Porter steps 1–2:
+ * "queries" → "query", "optimizing"/"optimization" → "optimize", "running" → "run"
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -3) + 'y';
+  else if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us')) w = w.slice(0, -1);
+
+  const step2: Array<[string, string]> = [
+    ['ational', 'ate'], ['ization', 'ize'], ['ation', 'ate'], ['izer', 'ize'],
+    ['fulness', 'ful'], ['iveness', 'ive'], ['ousness', 'ous'], ['ness', ''],
+  ];
+  for (const [suffix, replacement] of step2) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      return w.slice(0, -suffix.length) + replacement;
+    }
+  }
+
+  for (const suffix of ['ing', 'ed']) {
+    const base = w.slice(0, -suffix.length);
+    if (w.endsWith(suffix) && base.length >= 2 && /[aeiouy]/.test(base)) {
+      if (/(at|bl|iz)$/.test(base)) return base + 'e';
+      if (/([^aeiouylsz])\1$/.test(base)) return base.slice(0, -1);
+      if (base.length === 3 && /^[^aeiou][aeiou][^aeiouwxy]$/.test(base)) return base + 'e';
+      return base;
+    }
+  }
+  return w;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class GSNSearchIndex {
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> doc ID -> term frequency
+  private totalLength: number = 0;
+  private revision: number = 0;
+  private pendingEmbeddings: Set<Promise<void>> = new Set();
+  private embed?: EmbeddingFunction;
+  private embeddingWeight: number;
+  private k1: number;
+  private b: number;
+  private logger: GSNLogger;
+
+  constructor(config: SearchIndexConfig = {}) {
+    this.embed = config.embed;
+    this.embeddingWeight = config.embeddingWeight ?? 0.5;
+    this.k1 = config.k1 ?? 1.2;
+    this.b = config.b ?? 0.75;
+    this.logger = (config.logger || NOOP_LOGGER).child({ module: 'search-index' });
+  }
+
+  /**
+   * Add a document or replace its previous version
+   */
+  public upsert(document: SearchDocument): void {
+    this.removePostings(document.id);
+
+    const tokens = tokenize(document.text);
+    const terms = new Map<string, number>();
+    tokens.forEach(term => terms.set(term, (terms.get(term) || 0) + 1));
+    terms.forEach((tf, term) => {
+      const docs = this.postings.get(term) || new Map<string, number>();
+      docs.set(document.id, tf);
+      this.postings.set(term, docs);
+    });
+
+    const indexed: IndexedDocument = {
+      tags: document.tags || [],
+      length: tokens.length,
+      terms,
+      revision: ++this.revision,
+    };
+    this.documents.set(document.id, indexed);
+    this.totalLength += tokens.length;
+
+    if (this.embed) {
+      this.computeEmbedding(document.id, document.text, indexed.revision);
+    }
+  }
+
+  /**
+   * Drop a document from the index
+   */
+  public remove(id: string): boolean {
+    if (!this.documents.has(id)) {
+      return false;
+    }
+    this.removePostings(id);
+    this.documents.delete(id);
+    return true;
+  }
+
+  public has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  public size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Rank documents against a query. Without an embedding function the score is the BM25
+   * score; with one it blends max-normalized BM25 and cosine similarity by `embeddingWeight`.
+   */
+  public async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const topK = options.topK ?? 10;
+    const candidates = this.filterByTags(options.tags);
+    const bm25 = this.scoreBm25(tokenize(query), candidates);
+
+    let cosines: Map<string, number> | undefined;
+    if (this.embed) {
+      await this.flushEmbeddings();
+      const queryVector = await this.embed(query);
+      cosines = new Map();
+      candidates.forEach(id => {
+        const vector = this.documents.get(id)!.embedding;
+        if (vector) cosines!.set(id, cosineSimilarity(queryVector, vector));
+      });
+    }
+
+    const maxBm25 = Math.max(0, ...Array.from(bm25.values()).map(e => e.bm25));
+    const hits: SearchHit[] = [];
+    candidates.forEach(id => {
+      const lexical = bm25.get(id) || { bm25: 0, terms: [] };
+      const explanation: ScoreExplanation = { ...lexical };
+      let score = lexical.bm25;
+      if (cosines) {
+        const cosine = cosines.get(id) ?? 0;
+        explanation.cosine = cosine;
+        score = (1 - this.embeddingWeight) * (maxBm25 ? lexical.bm25 / maxBm25 : 0)
+          + this.embeddingWeight * Math.max(0, cosine);
+      }
+      if (score > 0 && score >= (options.minScore ?? 0)) {
+        hits.push({ id, score, explanation });
+      }
+    });
+
+    return hits.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id)).slice(0, topK);
+  }
+
+  /**
+   * Wait for embeddings that are still being computed
+   */
+  public async flushEmbeddings(): Promise<void> {
+    while (this.pendingEmbeddings.size > 0) {
+      await Promise.all(Array.from(this.pendingEmbeddings));
+    }
+  }
+
+  public clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  private scoreBm25(queryTerms: string[], candidates: string[]): Map<string, Pick<ScoreExplanation, 'bm25' | 'terms'>> {
+    const scores = new Map<string, Pick<ScoreExplanation, 'bm25' | 'terms'>>();
+    const candidateSet = new Set(candidates);
+    const docCount = this.documents.size;
+    const avgLength = docCount ? this.totalLength / docCount : 0;
+
+    Array.from(new Set(queryTerms)).forEach(queryTerm => {
+      this.expand(queryTerm).forEach(({ term, weight }) => {
+        const docs = this.postings.get(term)!;
+        const idf = Math.log(1 + (docCount - docs.size + 0.5) / (docs.size + 0.5));
+        docs.forEach((tf, id) => {
+          if (!candidateSet.has(id)) return;
+          const length = this.documents.get(id)!.length;
+          const termScore = weight * idf * (tf * (this.k1 + 1)) /
+            (tf + this.k1 * (1 - this.b + this.b * (avgLength ? length / avgLength : 0)));
+          const entry = scores.get(id) || { bm25: 0, terms: [] };
+          entry.bm25 += termScore;
+          entry.terms.push({ term: queryTerm, matched: term, tf, idf, score: termScore });
+          scores.set(id, entry);
+        });
+      });
+    });
+    return scores;
+  }
+
+  /**
+   * Indexed terms a query term matches: itself, plus terms it prefixes at reduced weight
+   */
+  private expand(queryTerm: string): Array<{ term: string; weight: number }> {
+    const matches: Array<{ term: string; weight: number }> = [];
+    if (this.postings.has(queryTerm)) {
+      matches.push({ term: queryTerm, weight: 1 });
+    }
+    if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+      this.postings.forEach((_, term) => {
+        if (term !== queryTerm && term.startsWith(queryTerm)) {
+          matches.push({ term, weight: PREFIX_WEIGHT });
+        }
+      });
+    }
+    return matches;
+  }
+
+  private filterByTags(tags: string[] = []): string[] {
+    return Array.from(this.documents.entries())
+      .filter(([, doc]) => tags.every(tag => doc.tags.includes(tag)))
+      .map(([id]) => id);
+  }
+
+  private removePostings(id: string): void {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+    doc.terms.forEach((_, term) => {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) this.postings.delete(term);
+    });
+    this.totalLength -= doc.length;
+  }
+
+  private computeEmbedding(id: string, text: string, revision: number): void {
+    const pending = Promise.resolve()
+      .then(() => this.embed!(text))
+      .then(vector => {
+        const doc = this.documents.get(id);
+        if (doc && doc.revision === revision) doc.embedding = vector;
+      })
+      .catch(error => this.logger.warn('Embedding failed', { documentId: id, error }))
+      .finally(() => this.pendingEmbeddings.delete(pending));
+    this.pendingEmbeddings.add(pending);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * GSN Snapshot Module
+ * Versioned, schema-checked document holding a connector's complete local state
+ */
+
+import {
+  AgentIdentity,
+  ContextSnippet,
+  MemorySyncEvent,
+  Task,
+  TaskStatusChange,
+  Insight,
+  AuthToken,
+} from './types';
+import { TaskAssignment } from './gsn-coordinator';
+import { v, validate, Validator } from './gsn-validation';
+import { GSNValidationError } from './gsn-errors';
+
+/** Bumped whenever the document shape changes incompatibly */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * How importSnapshot() treats existing state: 'replace' drops it first,
+ * 'merge' keeps whichever copy of a record was changed last (the local one on ties)
+ */
+export type SnapshotImportMode = 'merge' | 'replace';
+
+export interface MemorySnapshot {
+  snippets: ContextSnippet[];
+  /** Changes not yet acknowledged by the vault; replayed on the next sync after import */
+  pendingChanges: MemorySyncEvent[];
+}
+
+export interface CoordinatorSnapshot {
+  tasks: Task[];
+  /** Task ID → assignment history */
+  assignments: Record<string, TaskAssignment[]>;
+  /** Task ID → status audit trail */
+  statusHistory: Record<string, TaskStatusChange[]>;
+}
+
+export interface InsightsSnapshot {
+  insights: Insight[];
+  /** Tag → insight IDs */
+  tagIndex: Record<string, string[]>;
+}
+
+export interface AuthSnapshot {
+  /** HMAC key the issued tokens are signed with */
+  secretKey: string;
+  issuedTokens: AuthToken[];
+  revokedTokens: string[];
+}
+
+/**
+ * Everything needed to move an agent to another host. Contains the API key and
+ * token signing key — store it like any other credential.
+ */
+export interface ConnectorSnapshot {
+  version: number;
+  /** ISO timestamp of the export */
+  createdAt: string;
+  identity: AgentIdentity;
+  apiKey: string | null;
+  tier: string;
+  lastSyncTime: string | null;
+  memory: MemorySnapshot;
+  coordinator: CoordinatorSnapshot;
+  insights: InsightsSnapshot;
+  auth: AuthSnapshot;
+}
+
+export interface SnapshotImportOptions {
+  /** Default: 'merge' */
+  mode?: SnapshotImportMode;
+}
+
+const stringList = v.array(v.string());
+const optionalStringList = v.optional(stringList);
+
+const snippet = v.object({
+  id: v.string(),
+  agentId: v.string(),
+  content: v.string(),
+  timestamp: v.number(),
+  updatedAt: v.optional(v.number()),
+  tags: stringList,
+  expiresAt: v.optional(v.number()),
+  pinned: v.optional(v.boolean()),
+  revision: v.optional(v.number()),
+  clock: v.optional(v.record(v.number())),
+});
+
+const task = v.object({
+  id: v.string(),
+  agentId: v.string(),
+  name: v.string(),
+  description: v.string(),
+  status: v.literal('pending', 'assigned', 'in-progress', 'completed', 'failed', 'cancelled', 'open', 'claimed', 'blocked'),
+  priority: v.literal('low', 'medium', 'high', 'critical'),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+  dependsOn: optionalStringList,
+  requiredCapabilities: optionalStringList,
+  tags: optionalStringList,
+});
+
+const assignment = v.object({
+  taskId: v.string(),
+  fromAgentId: v.string(),
+  toAgentId: v.string(),
+  timestamp: v.number(),
+});
+
+const statusChange = v.object({
+  taskId: v.string(),
+  from: v.nullable(v.string()),
+  to: v.string(),
+  agentId: v.string(),
+  timestamp: v.number(),
+});
+
+const insight = v.object({
+  id: v.string(),
+  agentId: v.string(),
+  title: v.string(),
+  content: v.string(),
+  tags: stringList,
+  confidence: v.number(),
+  createdAt: v.number(),
+  lastUpdated: v.number(),
+  revision: v.optional(v.number()),
+  clock: v.optional(v.record(v.number())),
+});
+
+const token = v.object({
+  token: v.string(),
+  agentId: v.string(),
+  issuedAt: v.number(),
+  expiresAt: v.number(),
+  scope: v.literal('read', 'write', 'admin'),
+});
+
+export const snapshotSchema: Validator = v.object({
+  version: v.literal(SNAPSHOT_VERSION),
+  createdAt: v.string(),
+  identity: v.object({
+    id: v.string(),
+    name: v.string(),
+    type: v.literal('agent', 'coordinator', 'monitor'),
+    version: v.string(),
+    capabilities: optionalStringList,
+  }),
+  apiKey: v.nullable(v.string()),
+  tier: v.string(),
+  lastSyncTime: v.nullable(v.string()),
+  memory: v.object({
+    snippets: v.array(snippet),
+    pendingChanges: v.array(v.object({
+      type: v.literal('add', 'update', 'delete'),
+      snippet,
+      timestamp: v.number(),
+    })),
+  }),
+  coordinator: v.object({
+    tasks: v.array(task),
+    assignments: v.record(v.array(assignment)),
+    statusHistory: v.record(v.array(statusChange)),
+  }),
+  insights: v.object({
+    insights: v.array(insight),
+    tagIndex: v.record(stringList),
+  }),
+  auth: v.object({
+    secretKey: v.string(),
+    issuedTokens: v.array(token),
+    revokedTokens: stringList,
+  }),
+});
+
+/**
+ * Check a snapshot document (object or JSON text) against the schema and return a detached copy.
+ * Throws GSNValidationError listing every problem.
+ */
+export function parseSnapshot(document: unknown): ConnectorSnapshot {
+  let value: unknown;
+  try {
+    value = JSON.parse(typeof document === 'string' ? document : JSON.stringify(document));
+  } catch (e: any) {
+    throw new GSNValidationError([`not valid JSON: ${e.message}`], undefined, 'snapshot');
+  }
+
+  const issues = validate(value, snapshotSchema);
+  if (issues.length > 0) {
+    throw new GSNValidationError(issues, undefined, 'snapshot');
+  }
+  return value as ConnectorSnapshot;
+}
@@ -0,0 +1,135 @@
+/**
+ * GSN Storage Module
+ * Pluggable persistence backends for memory, coordination and insight state
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageAdapter } from './types';
+
+interface StorageOperation {
+  op: 'put' | 'delete' | 'clear';
+  key?: string;
+  value?: unknown;
+}
+
+/**
+ * Keeps collections in process memory. State survives module dispose()
+ * but not a process restart.
+ */
+export class InMemoryStorage implements StorageAdapter {
+  private collections: Map<string, Map<string, unknown>> = new Map();
+
+  public load<T>(collection: string): Map<string, T> {
+    const records = this.collections.get(collection) || new Map<string, unknown>();
+    const copy = new Map<string, T>();
+    records.forEach((value, key) => copy.set(key, clone(value) as T));
+    return copy;
+  }
+
+  public put<T>(collection: string, key: string, value: T): void {
+    this.getCollection(collection).set(key, clone(value));
+  }
+
+  public delete(collection: string, key: string): void {
+    this.collections.get(collection)?.delete(key);
+  }
+
+  public clear(collection: string): void {
+    this.collections.delete(collection);
+  }
+
+  private getCollection(collection: string): Map<string, unknown> {
+    let records = this.collections.get(collection);
+    if (!records) {
+      records = new Map();
+      this.collections.set(collection, records);
+    }
+    return records;
+  }
+}
+
+/**
+ * Persists each collection as an append-only JSON-lines file
+ * (`<directory>/<collection>.jsonl`). Operations are replayed on load;
+ * call compact() to rewrite a file with only its current records.
+ */
+export class JsonLinesStorage implements StorageAdapter {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  public load<T>(collection: string): Map<string, T> {
+    const records = new Map<string, T>();
+    const file = this.getFilePath(collection);
+    if (!fs.existsSync(file)) {
+      return records;
+    }
+
+    fs.readFileSync(file, 'utf8').split('\n').forEach(line => {
+      if (!line.trim()) return;
+      let operation: StorageOperation;
+      try {
+        operation = JSON.parse(line);
+      } catch {
+        // A torn final line from an interrupted write — skip it
+        return;
+      }
+
+      if (operation.op === 'put' && operation.key !== undefined) {
+        records.set(operation.key, operation.value as T);
+      } else if (operation.op === 'delete' && operation.key !== undefined) {
+        records.delete(operation.key);
+      } else if (operation.op === 'clear') {
+        records.clear();
+      }
+    });
+
+    return records;
+  }
+
+  public put<T>(collection: string, key: string, value: T): void {
+    this.append(collection, { op: 'put', key, value });
+  }
+
+  public delete(collection: string, key: string): void {
+    this.append(collection, { op: 'delete', key });
+  }
+
+  public clear(collection: string): void {
+    fs.rmSync(this.getFilePath(collection), { force: true });
+  }
+
+  /**
+   * Rewrite a collection file so it holds one line per live record
+   */
+  public compact(collection: string): void {
+    const records = this.load<unknown>(collection);
+    const file = this.getFilePath(collection);
+    const lines: string[] = [];
+    records.forEach((value, key) => lines.push(JSON.stringify({ op: 'put', key, value })));
+
+    const tmpFile = `${file}.tmp`;
+    fs.writeFileSync(tmpFile, lines.length > 0 ? lines.join('\n') + '\n' : '');
+    fs.renameSync(tmpFile, file);
+  }
+
+  private append(collection: string, operation: StorageOperation): void {
+    fs.appendFileSync(this.getFilePath(collection), JSON.stringify(operation) + '\n');
+  }
+
+  private getFilePath(collection: string): string {
+    const safeName = collection.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.directory, `${safeName}.jsonl`);
+  }
+}
+
+/**
+ * Deep-copy a JSON-serializable value so stored records cannot be mutated by callers
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
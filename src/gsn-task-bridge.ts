@@ -0,0 +1,189 @@
+/**
+ * GSN Task Bridge Module
+ * Keeps local coordinator tasks and bounty-board tasks in step, in both directions
+ */
+
+import { Task, TaskStatus, TaskPriority, BountyTask, TaskResponse, PlatformResult, GSNLogger } from './types';
+import { GSNCoordinator } from './gsn-coordinator';
+import { GSNPlatformClient, isPlatformFailure } from './gsn-platform-client';
+import { canTransition, findTransitionPath } from './gsn-task-lifecycle';
+import { GSNNotFoundError, GSNTaskTransitionError } from './gsn-errors';
+import { NOOP_LOGGER } from './gsn-logger';
+
+/**
+ * Bounty-board task as seen in sync pulls, heartbeats or task listings
+ */
+export type RemoteTaskData = Pick<BountyTask, 'id' | 'title' | 'reward'> & Partial<BountyTask>;
+
+/**
+ * Bounty-board status → local status. Unknown remote statuses are ignored.
+ */
+export const REMOTE_STATUS_MAP: Readonly<Record<string, TaskStatus>> = {
+  'open': 'open',
+  'claimed': 'claimed',
+  'in-progress': 'in-progress',
+  'submitted': 'completed',
+  'completed': 'completed',
+  'approved': 'completed',
+  'rejected': 'failed',
+  'cancelled': 'cancelled',
+  'expired': 'cancelled',
+};
+
+const PRIORITIES: readonly string[] = ['low', 'medium', 'high', 'critical'];
+
+export class GSNTaskBridge {
+  private coordinator: GSNCoordinator;
+  private platform: GSNPlatformClient;
+  private logger: GSNLogger;
+
+  constructor(coordinator: GSNCoordinator, platform: GSNPlatformClient, logger: GSNLogger = NOOP_LOGGER) {
+    this.coordinator = coordinator;
+    this.platform = platform;
+    this.logger = logger.child({ module: 'task-bridge' });
+  }
+
+  /**
+   * Mirror remote tasks locally: unknown ones become 'open' tasks, known ones follow the remote status.
+   * Returns the newly created local tasks.
+   */
+  public importRemoteTasks(remoteTasks: RemoteTaskData[] = []): Task[] {
+    const created: Task[] = [];
+    remoteTasks.forEach(remote => {
+      const local = this.coordinator.getTaskByRemoteId(remote.id);
+      if (local) {
+        this.applyRemoteStatus(local, remote);
+        return;
+      }
+
+      const task = this.coordinator.createTask(remote.title, remote.description || remote.title, {
+        status: 'open',
+        priority: PRIORITIES.includes(remote.priority || '') ? (remote.priority as TaskPriority) : 'medium',
+        reward: remote.reward,
+        category: remote.category,
+        tags: remote.tags,
+        deadline: remote.deadline ? Date.parse(remote.deadline) || undefined : undefined,
+        remoteId: remote.id,
+      });
+      created.push(task);
+      this.applyRemoteStatus(task, remote);
+    });
+    return created;
+  }
+
+  /**
+   * Move a linked local task to match a remote status, walking through intermediate statuses
+   * so every step emits its coordination event. Returns false if nothing changed.
+   */
+  public applyRemoteStatus(task: Task, remote: RemoteTaskData): boolean {
+    const target = remote.status ? REMOTE_STATUS_MAP[remote.status] : undefined;
+    if (!target || target === task.status) {
+      return false;
+    }
+
+    const path = findTransitionPath(task.status, target);
+    if (!path) {
+      this.logger.warn(`Ignoring remote status ${remote.status} (local: ${task.status})`, { taskId: task.id });
+      return false;
+    }
+
+    const reason = `remote status ${remote.status}`;
+    path.forEach(status => {
+      if (status === 'claimed') {
+        this.coordinator.claimTask(task.id, remote.claimedBy || task.agentId, reason);
+      } else {
+        this.coordinator.updateTaskStatus(task.id, status, undefined, reason);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Post a pending local task to the bounty board and mark it 'open'
+   */
+  public async publishTask(taskId: string): Promise<PlatformResult<TaskResponse>> {
+    const task = this.requireTask(taskId);
+    if (!canTransition(task.status, 'open')) {
+      throw new GSNTaskTransitionError(taskId, task.status, 'open');
+    }
+
+    const response = await this.platform.createTask({
+      title: task.name,
+      description: task.description,
+      reward: task.reward,
+      category: task.category,
+      priority: task.priority,
+      tags: task.tags,
+      deadline: task.deadline !== undefined ? new Date(task.deadline).toISOString() : undefined,
+    });
+
+    if (!isPlatformFailure(response)) {
+      this.coordinator.linkRemoteTask(taskId, response.task.id);
+      this.coordinator.updateTaskStatus(taskId, 'open', undefined, 'published to bounty board');
+    }
+    return response;
+  }
+
+  /**
+   * Claim the bounty-board task behind a local task, then mark the local task 'claimed'
+   */
+  public async claimTask(taskId: string, message?: string): Promise<PlatformResult<TaskResponse>> {
+    const task = this.requireLinkedTask(taskId);
+    if (!canTransition(task.status, 'claimed')) {
+      throw new GSNTaskTransitionError(taskId, task.status, 'claimed');
+    }
+
+    const response = await this.platform.claimTask(task.remoteId!, message);
+    if (!isPlatformFailure(response)) {
+      this.coordinator.claimTask(taskId, undefined, 'claimed on bounty board');
+    }
+    return response;
+  }
+
+  /**
+   * Submit work for the bounty-board task behind a local task, then mark the local task 'completed'
+   */
+  public async submitTask(taskId: string, submission: string, workUrl?: string): Promise<PlatformResult<TaskResponse>> {
+    const task = this.requireLinkedTask(taskId);
+    if (!canTransition(task.status, 'completed')) {
+      throw new GSNTaskTransitionError(taskId, task.status, 'completed');
+    }
+
+    const response = await this.platform.submitTask(task.remoteId!, submission, workUrl);
+    if (!isPlatformFailure(response)) {
+      this.coordinator.updateTaskStatus(taskId, 'completed', submission, 'submitted to bounty board');
+    }
+    return response;
+  }
+
+  /**
+   * Pull the bounty board and apply it through importRemoteTasks(); tasks we have never seen
+   * are only imported while still open. Returns false if the board could not be fetched.
+   */
+  public async refresh(): Promise<boolean> {
+    const response = await this.platform.getTasks();
+    if (isPlatformFailure(response)) {
+      return false;
+    }
+    this.importRemoteTasks(response.tasks.filter(remote =>
+      remote.status === 'open' || this.coordinator.getTaskByRemoteId(remote.id)
+    ));
+    return true;
+  }
+
+  private requireTask(taskId: string): Task {
+    const task = this.coordinator.getTask(taskId);
+    if (!task) {
+      throw new GSNNotFoundError(`Unknown task ${taskId}`);
+    }
+    return task;
+  }
+
+  private requireLinkedTask(taskId: string): Task {
+    const task = this.requireTask(taskId);
+    if (!task.remoteId) {
+      throw new GSNNotFoundError(`Task ${taskId} is not linked to a bounty-board task`);
+    }
+    return task;
+  }
+}
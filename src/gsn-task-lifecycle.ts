@@ -0,0 +1,62 @@
+/**
+ * GSN Task Lifecycle Module
+ * Allowed task status transitions, covering local statuses and bounty-board ones (open, claimed)
+ */
+
+import { TaskStatus } from './types';
+
+/**
+ * Status → statuses it may move to. Terminal statuses map to an empty list.
+ */
+export const TASK_TRANSITIONS: Readonly<Record<TaskStatus, readonly TaskStatus[]>> = {
+  'pending': ['assigned', 'in-progress', 'open', 'blocked', 'cancelled', 'failed'],
+  'blocked': ['pending', 'cancelled', 'failed'],
+  'open': ['claimed', 'assigned', 'cancelled', 'failed'],
+  'claimed': ['in-progress', 'completed', 'open', 'cancelled', 'failed'],
+  'assigned': ['assigned', 'in-progress', 'pending', 'completed', 'cancelled', 'failed'],
+  'in-progress': ['completed', 'pending', 'cancelled', 'failed'],
+  'failed': ['pending'],
+  'completed': [],
+  'cancelled': [],
+};
+
+/**
+ * Whether a task may move from one status to another
+ */
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether a status admits no further transitions
+ */
+export function isTerminalStatus(status: TaskStatus): boolean {
+  return TASK_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Shortest chain of statuses leading from one status to another, excluding `from`.
+ * Returns null when `to` cannot be reached; an empty list when `from === to`.
+ */
+export function findTransitionPath(from: TaskStatus, to: TaskStatus): TaskStatus[] | null {
+  const previous = new Map<TaskStatus, TaskStatus>();
+  const queue: TaskStatus[] = [from];
+  const seen = new Set<TaskStatus>([from]);
+
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    if (status === to) {
+      const path: TaskStatus[] = [];
+      for (let s = to; s !== from; s = previous.get(s)!) path.unshift(s);
+      return path;
+    }
+    TASK_TRANSITIONS[status].forEach(next => {
+      if (!seen.has(next)) {
+        seen.add(next);
+        previous.set(next, status);
+        queue.push(next);
+      }
+    });
+  }
+  return null;
+}
@@ -0,0 +1,113 @@
+/**
+ * GSN Validation Module
+ * Lightweight runtime shape checks for platform API payloads.
+ * Only declared fields are checked; unknown extra fields are allowed.
+ */
+
+import { GSNValidationError } from './gsn-errors';
+
+/**
+ * Checks `value` and appends a message per problem to `issues`
+ */
+export type Validator = (value: unknown, path: string, issues: string[]) => void;
+
+const OPTIONAL = Symbol('optional');
+
+type OptionalValidator = Validator & { [OPTIONAL]?: true };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive(type: 'string' | 'number' | 'boolean'): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && isNaN(value as number))) {
+      issues.push(`${path || 'value'}: expected ${type}, got ${describe(value)}`);
+    }
+  };
+}
+
+export const v = {
+  string: (): Validator => primitive('string'),
+  number: (): Validator => primitive('number'),
+  boolean: (): Validator => primitive('boolean'),
+
+  /** Accepts anything */
+  unknown: (): Validator => () => undefined,
+
+  /** Accepts only the given literal values */
+  literal: (...allowed: Array<string | number | boolean>): Validator => (value, path, issues) => {
+    if (!allowed.includes(value as string | number | boolean)) {
+      issues.push(`${path || 'value'}: expected one of ${allowed.map(a => JSON.stringify(a)).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  },
+
+  /** Field may be missing or undefined */
+  optional: (inner: Validator): Validator => {
+    const validator: OptionalValidator = (value, path, issues) => {
+      if (value !== undefined) inner(value, path, issues);
+    };
+    validator[OPTIONAL] = true;
+    return validator;
+  },
+
+  nullable: (inner: Validator): Validator => (value, path, issues) => {
+    if (value !== null) inner(value, path, issues);
+  },
+
+  array: (item: Validator): Validator => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path || 'value'}: expected array, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((element, index) => item(element, `${path}[${index}]`, issues));
+  },
+
+  object: (shape: Record<string, Validator>): Validator => (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path || 'value'}: expected object, got ${describe(value)}`);
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    Object.keys(shape).forEach(key => {
+      const validator = shape[key] as OptionalValidator;
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (!(key in record) && !validator[OPTIONAL]) {
+        issues.push(`${fieldPath}: missing`);
+        return;
+      }
+      validator(record[key], fieldPath, issues);
+    });
+  },
+
+  /** Object whose values all match `item` (e.g. a map keyed by ID) */
+  record: (item: Validator): Validator => (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path || 'value'}: expected object, got ${describe(value)}`);
+      return;
+    }
+    Object.entries(value).forEach(([key, entry]) => item(entry, path ? `${path}.${key}` : key, issues));
+  },
+};
+
+/**
+ * Run a validator and return the list of problems (empty when valid)
+ */
+export function validate(value: unknown, validator: Validator): string[] {
+  const issues: string[] = [];
+  validator(value, '', issues);
+  return issues;
+}
+
+/**
+ * Run a validator and throw a GSNValidationError when the value does not match
+ */
+export function assertValid<T>(value: unknown, validator: Validator, endpoint?: string): T {
+  const issues = validate(value, validator);
+  if (issues.length > 0) {
+    throw new GSNValidationError(issues, endpoint);
+  }
+  return value as T;
+}
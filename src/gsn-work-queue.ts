@@ -0,0 +1,237 @@
+/**
+ * GSN Work Queue Module
+ * Priority-ordered pull queue over GSNCoordinator tasks, with retries and a dead-letter bucket
+ */
+
+import { Task, TaskPriority, DeadLetter } from './types';
+import { GSNCoordinator } from './gsn-coordinator';
+import { GSNTaskBridge } from './gsn-task-bridge';
+import { isPlatformFailure } from './gsn-platform-client';
+
+export interface WorkQueueConfig {
+  /** Deliveries before a nacked task goes to the dead-letter bucket (default: 3) */
+  maxAttempts?: number;
+  /** Tasks a single worker may hold at once (default: 1) */
+  concurrencyPerWorker?: number;
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
+export class GSNWorkQueue {
+  private coordinator: GSNCoordinator;
+  private bridge?: GSNTaskBridge;
+  private maxAttempts: number;
+  private concurrencyPerWorker: number;
+  private inFlight: Map<string, string> = new Map(); // task ID -> worker ID
+  private attempts: Map<string, number> = new Map();
+  private deadLetters: Map<string, DeadLetter> = new Map();
+  private claimed: Set<string> = new Set(); // bounty tasks this queue claimed on the board
+  private reserved: Set<string> = new Set(); // tasks held in inFlight while their claim is pending
+
+  /**
+   * Without a bridge the queue only delivers local tasks; bounty-board tasks are left to the caller
+   */
+  constructor(coordinator: GSNCoordinator, config: WorkQueueConfig = {}, bridge?: GSNTaskBridge) {
+    this.coordinator = coordinator;
+    this.bridge = bridge;
+    this.maxAttempts = config.maxAttempts ?? 3;
+    this.concurrencyPerWorker = config.concurrencyPerWorker ?? 1;
+  }
+
+  /**
+   * Hand the best waiting task to a worker. Local tasks are assigned in the coordinator;
+   * open bounty tasks are claimed on the board first and skipped if the claim fails.
+   * Returns null when nothing is waiting or the worker is at its concurrency limit.
+   * The task is reserved before the claim is awaited, so concurrent calls never deliver it twice.
+   */
+  public async next(workerId: string): Promise<Task | null> {
+    this.pruneInFlight();
+
+    for (const candidate of this.getWaiting()) {
+      if (this.getInFlight(workerId).length >= this.concurrencyPerWorker) {
+        return null;
+      }
+      // Earlier claims were awaited, so the candidate may have been taken in the meantime
+      const task = this.coordinator.getTask(candidate.id);
+      if (!task || !this.isWaiting(task) || this.deadLetters.has(task.id)) {
+        continue;
+      }
+
+      this.inFlight.set(task.id, workerId);
+      this.reserved.add(task.id);
+      const taken = await this.take(task, workerId);
+      this.reserved.delete(task.id);
+      if (!taken) {
+        this.inFlight.delete(task.id);
+        continue;
+      }
+      this.attempts.set(task.id, (this.attempts.get(task.id) || 0) + 1);
+      return this.coordinator.getTask(task.id) || null;
+    }
+    return null;
+  }
+
+  /**
+   * Look at the task next() would hand out, without taking it
+   */
+  public peek(): Task | null {
+    return this.getWaiting()[0] || null;
+  }
+
+  /**
+   * Mark a delivered task as done; bounty tasks are submitted on the board with `result` as the submission.
+   * Returns false (and keeps the delivery) if the submission fails.
+   */
+  public async ack(taskId: string, result?: string): Promise<boolean> {
+    this.pruneInFlight();
+    if (!this.inFlight.has(taskId)) {
+      return false;
+    }
+
+    if (this.claimed.has(taskId)) {
+      const response = await this.bridge!.submitTask(taskId, result || '');
+      if (isPlatformFailure(response)) {
+        return false;
+      }
+      this.claimed.delete(taskId);
+    } else if (!this.coordinator.updateTaskStatus(taskId, 'completed', result)) {
+      return false;
+    }
+
+    this.inFlight.delete(taskId);
+    this.attempts.delete(taskId);
+    return true;
+  }
+
+  /**
+   * Return a delivered task to the queue, or dead-letter it once it has used up its attempts
+   */
+  public nack(taskId: string, reason?: string): boolean {
+    this.pruneInFlight();
+    if (!this.inFlight.has(taskId)) {
+      return false;
+    }
+
+    this.inFlight.delete(taskId);
+    const attempts = this.attempts.get(taskId) || 0;
+    if (attempts < this.maxAttempts) {
+      // A claimed bounty keeps its claim and waits for the next worker
+      return this.claimed.has(taskId) || this.coordinator.updateTaskStatus(taskId, 'pending', undefined, reason);
+    }
+
+    this.attempts.delete(taskId);
+    this.coordinator.updateTaskStatus(taskId, 'failed', undefined, reason || `gave up after ${attempts} attempts`);
+    const task = this.coordinator.getTask(taskId)!;
+    this.deadLetters.set(taskId, { task, attempts, reason, timestamp: Date.now() });
+    return true;
+  }
+
+  /**
+   * Get waiting tasks in delivery order: priority, then reward, then age.
+   * Open bounty tasks only wait here when the queue has a bridge to claim them with.
+   */
+  public getWaiting(): Task[] {
+    return this.coordinator.getAllTasks()
+      .filter(task => this.isWaiting(task) && !this.deadLetters.has(task.id))
+      .sort((a, b) =>
+        PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] ||
+        (b.reward ?? 0) - (a.reward ?? 0) ||
+        a.createdAt - b.createdAt
+      );
+  }
+
+  /**
+   * Get tasks currently held by a worker, or by any worker
+   */
+  public getInFlight(workerId?: string): Task[] {
+    return Array.from(this.inFlight.entries())
+      .filter(([, holder]) => workerId === undefined || holder === workerId)
+      .map(([taskId]) => this.coordinator.getTask(taskId))
+      .filter((t): t is Task => t !== undefined);
+  }
+
+  /**
+   * Get tasks that exhausted their attempts
+   */
+  public getDeadLetters(): DeadLetter[] {
+    return Array.from(this.deadLetters.values());
+  }
+
+  /**
+   * Put a dead-lettered task back in the queue with a fresh attempt count.
+   * A dead-lettered bounty still holds its board claim, so it is redelivered without claiming again.
+   */
+  public retryDeadLetter(taskId: string): boolean {
+    if (!this.deadLetters.delete(taskId)) {
+      return false;
+    }
+    return this.coordinator.updateTaskStatus(taskId, 'pending', undefined, 'retried from dead-letter bucket');
+  }
+
+  /**
+   * Drop in-flight and dead-letter bookkeeping (tasks stay in the coordinator)
+   */
+  public dispose(): void {
+    this.inFlight.clear();
+    this.reserved.clear();
+    this.attempts.clear();
+    this.deadLetters.clear();
+    this.claimed.clear();
+  }
+
+  private isWaiting(task: Task): boolean {
+    if (this.inFlight.has(task.id)) {
+      return false; // delivered, or reserved while its claim is pending
+    }
+    if (!task.remoteId) {
+      return task.status === 'pending' || task.status === 'open';
+    }
+    if (this.claimed.has(task.id)) {
+      return (task.status === 'claimed' || task.status === 'in-progress' || task.status === 'pending');
+    }
+    return this.bridge !== undefined && task.status === 'open';
+  }
+
+  /**
+   * Take a waiting task for a worker: claim an unclaimed bounty on the board, assign a local task
+   */
+  private async take(task: Task, workerId: string): Promise<boolean> {
+    if (!task.remoteId) {
+      return this.coordinator.assignTask(task.id, workerId, 'dequeued');
+    }
+    if (this.claimed.has(task.id)) {
+      // A retried dead letter is back at pending; resume work on it under the existing claim
+      return task.status !== 'pending' || this.coordinator.updateTaskStatus(task.id, 'in-progress', undefined, 'dequeued');
+    }
+
+    try {
+      const response = await this.bridge!.claimTask(task.id, `dequeued by ${workerId}`);
+      if (isPlatformFailure(response)) {
+        return false;
+      }
+    } catch {
+      return false; // throwOnError failures and local status changes both just skip the task
+    }
+    this.claimed.add(task.id);
+    return true;
+  }
+
+  /**
+   * Forget deliveries whose task was finished, reassigned or requeued outside the queue
+   */
+  private pruneInFlight(): void {
+    this.inFlight.forEach((workerId, taskId) => {
+      if (this.reserved.has(taskId)) {
+        return;
+      }
+      const task = this.coordinator.getTask(taskId);
+      const held = task && (this.claimed.has(taskId)
+        ? task.status === 'claimed' || task.status === 'in-progress'
+        : task.agentId === workerId && (task.status === 'assigned' || task.status === 'in-progress'));
+      if (!held) {
+        this.inFlight.delete(taskId);
+        this.claimed.delete(taskId);
+      }
+    });
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * GSN Workflow Module
+ * Workflow-level view over a set of dependent tasks in a GSNCoordinator
+ */
+
+import { Task, WorkflowProgress } from './types';
+import { GSNCoordinator } from './gsn-coordinator';
+import { isTerminalStatus } from './gsn-task-lifecycle';
+
+export class GSNWorkflow {
+  private coordinator: GSNCoordinator;
+  private taskIds?: Set<string>;
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * @param taskIds Tasks that make up the workflow; omit to cover every task in the coordinator
+   */
+  constructor(coordinator: GSNCoordinator, taskIds?: string[]) {
+    this.coordinator = coordinator;
+    this.taskIds = taskIds ? new Set(taskIds) : undefined;
+  }
+
+  /**
+   * Get the tasks in this workflow
+   */
+  public getTasks(): Task[] {
+    if (!this.taskIds) {
+      return this.coordinator.getAllTasks();
+    }
+    return Array.from(this.taskIds)
+      .map(id => this.coordinator.getTask(id))
+      .filter((t): t is Task => t !== undefined);
+  }
+
+  /**
+   * Count tasks by stage
+   */
+  public getProgress(): WorkflowProgress {
+    const tasks = this.getTasks();
+    const count = (predicate: (task: Task) => boolean) => tasks.filter(predicate).length;
+    const completed = count(t => t.status === 'completed');
+
+    return {
+      total: tasks.length,
+      completed,
+      failed: count(t => t.status === 'failed'),
+      cancelled: count(t => t.status === 'cancelled'),
+      blocked: count(t => t.status === 'blocked'),
+      ready: this.getReadyTasks().length,
+      active: count(t => t.status === 'assigned' || t.status === 'claimed' || t.status === 'in-progress'),
+      ratio: tasks.length > 0 ? completed / tasks.length : 0,
+    };
+  }
+
+  /**
+   * Get tasks that can start now: pending, with every dependency completed
+   */
+  public getReadyTasks(): Task[] {
+    return this.getTasks().filter(task =>
+      task.status === 'pending' &&
+      this.coordinator.getDependencies(task.id).every(dep => dep.status === 'completed')
+    );
+  }
+
+  /**
+   * Get the longest chain of unfinished tasks, first to last.
+   * Each task is weighted by `metadata.estimatedDuration` when set, otherwise 1.
+   */
+  public getCriticalPath(): Task[] {
+    const open = this.getTasks().filter(t => !isTerminalStatus(t.status));
+    const openIds = new Set(open.map(t => t.id));
+    const best = new Map<string, { weight: number; path: Task[] }>();
+
+    const longestEndingAt = (task: Task): { weight: number; path: Task[] } => {
+      const cached = best.get(task.id);
+      if (cached) return cached;
+
+      let upstream = { weight: 0, path: [] as Task[] };
+      this.coordinator.getDependencies(task.id)
+        .filter(dep => openIds.has(dep.id))
+        .forEach(dep => {
+          const candidate = longestEndingAt(dep);
+          if (candidate.weight > upstream.weight) {
+            upstream = candidate;
+          }
+        });
+
+      const result = { weight: upstream.weight + taskWeight(task), path: [...upstream.path, task] };
+      best.set(task.id, result);
+      return result;
+    };
+
+    let critical: { weight: number; path: Task[] } = { weight: 0, path: [] };
+    open.forEach(task => {
+      const candidate = longestEndingAt(task);
+      if (candidate.weight > critical.weight) {
+        critical = candidate;
+      }
+    });
+    return critical.path;
+  }
+
+  /**
+   * Whether every task in the workflow has reached a terminal status
+   */
+  public isComplete(): boolean {
+    return this.getTasks().every(t => isTerminalStatus(t.status));
+  }
+
+  /**
+   * Listen for progress changes caused by status changes of tasks in this workflow
+   */
+  public onProgress(listener: (progress: WorkflowProgress, task: Task) => void): () => void {
+    const unsubscribe = this.coordinator.onCoordinationEvent(event => {
+      if (event.task && (!this.taskIds || this.taskIds.has(event.task.id))) {
+        listener(this.getProgress(), event.task);
+      }
+    });
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  /**
+   * Detach all progress listeners
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
+
+function taskWeight(task: Task): number {
+  const estimate = task.metadata?.estimatedDuration;
+  return typeof estimate === 'number' && estimate > 0 ? estimate : 1;
+}
@@ -14,7 +14,55 @@ export { GSNMemory } from './gsn-memory';
 export { GSNCoordinator } from './gsn-coordinator';
 export { GSNInsights } from './gsn-insights';
 export { GSNAuth } from './gsn-auth';
-export { GSNPlatformClient } from './gsn-platform-client';
+export { GSNPlatformClient, isPlatformFailure } from './gsn-platform-client';
+export {
+  GSNError,
+  GSNNetworkError,
+  GSNAuthError,
+  GSNTierError,
+  GSNRateLimitError,
+  GSNNotFoundError,
+  GSNValidationError,
+  GSNTaskTransitionError,
+  GSNDependencyError,
+  GSNSealedError,
+  isGSNError,
+} from './gsn-errors';
+export { TASK_TRANSITIONS, canTransition, isTerminalStatus, findTransitionPath } from './gsn-task-lifecycle';
+export { GSNWorkflow } from './gsn-workflow';
+export { GSNEventBus } from './gsn-event-bus';
+export { JsonLogger, NoopLogger, NOOP_LOGGER } from './gsn-logger';
+export type { JsonLoggerOptions } from './gsn-logger';
+export type { EventBusOptions, BusEvent, BusListener, TopicPattern, TopicsMatching } from './gsn-event-bus';
+export { GSNTaskBridge, REMOTE_STATUS_MAP } from './gsn-task-bridge';
+export type { RemoteTaskData } from './gsn-task-bridge';
+export { GSNWorkQueue } from './gsn-work-queue';
+export type { WorkQueueConfig } from './gsn-work-queue';
+export { GSNTaskRouter, roundRobinStrategy, leastLoadedStrategy, reputationStrategy } from './gsn-router';
+export type { RoutingStrategy, RouterConfig } from './gsn-router';
+export { InMemoryStorage, JsonLinesStorage } from './gsn-storage';
+export { GSNOutbox } from './gsn-outbox';
+export { CircuitBreaker, DEFAULT_REQUEST_POLICY } from './gsn-request-policy';
+export { fileUrlResolver, wellKnownUrlResolver, resolvePlatformUrls } from './gsn-discovery';
+export { SNAPSHOT_VERSION, snapshotSchema, parseSnapshot } from './gsn-snapshot';
+export { GSNSearchIndex, tokenize, stem, cosineSimilarity } from './gsn-search-index';
+export type { SearchIndexConfig, SearchDocument } from './gsn-search-index';
+export { GSNQueryIndex, parseQuery } from './gsn-query';
+export { GSNRevisionHistory, diffRecords } from './gsn-revisions';
+export { compareClocks, compareVersions, mergeClocks, tickClock, mergeConcurrent, findCommonAncestor } from './gsn-merge';
+export type { MergeableRecord, MergeResult } from './gsn-merge';
+export type { RevisionHistoryConfig } from './gsn-revisions';
+export type {
+  ConnectorSnapshot,
+  SnapshotImportMode,
+  SnapshotImportOptions,
+  MemorySnapshot,
+  CoordinatorSnapshot,
+  InsightsSnapshot,
+  AuthSnapshot,
+} from './gsn-snapshot';
+export { GSNMockPlatform, MOCK_TIERS } from './gsn-mock-platform';
+export type { MockPlatformOptions, MockAgent, MockRequest, MockTier } from './gsn-mock-platform';
 
 export * from './types';
 
@@ -22,14 +70,36 @@ import { GSNMemory } from './gsn-memory';
 import { GSNCoordinator } from './gsn-coordinator';
 import { GSNInsights } from './gsn-insights';
 import { GSNAuth } from './gsn-auth';
-import { GSNPlatformClient } from './gsn-platform-client';
+import { GSNPlatformClient, isPlatformFailure } from './gsn-platform-client';
+import { GSNOutbox } from './gsn-outbox';
+import { GSNTaskRouter } from './gsn-router';
+import { GSNWorkQueue } from './gsn-work-queue';
+import { GSNTaskBridge } from './gsn-task-bridge';
+import { isTerminalStatus } from './gsn-task-lifecycle';
+import { GSNEventBus } from './gsn-event-bus';
+import { toPlatformFailure, GSNValidationError } from './gsn-errors';
+import { ConnectorSnapshot, SnapshotImportOptions, SNAPSHOT_VERSION, parseSnapshot } from './gsn-snapshot';
 import {
   AgentIdentity,
   ConnectorConfig,
   PlatformRegistration,
   HeartbeatResponse,
   SyncResponse,
+  OutboxEntry,
+  OutboxFlushResult,
+  PlatformResult,
+  PlatformFailure,
+  ConnectorEvent,
+  GSNEventMap,
+  GSNLogger,
+  ConnectionState,
+  ConnectorStatus,
+  ShutdownOptions,
+  ShutdownResult,
 } from './types';
+import { NOOP_LOGGER } from './gsn-logger';
+
+const MAX_SEEN_IDS = 1000;
 
 /**
  * GSNConnector — Main entry point for the GSN SDK.
@@ -62,6 +132,11 @@ export class GSNConnector {
   public readonly insights: GSNInsights;
   public readonly auth: GSNAuth;
   public readonly platform: GSNPlatformClient;
+  public readonly router: GSNTaskRouter;
+  public readonly queue: GSNWorkQueue;
+  public readonly taskBridge: GSNTaskBridge;
+  /** Every memory, coordination, insight, platform and lifecycle event, by topic */
+  public readonly events: GSNEventBus<GSNEventMap>;
 
   private config: ConnectorConfig;
   private identity: AgentIdentity;
@@ -70,17 +145,42 @@ export class GSNConnector {
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private syncTimer: NodeJS.Timeout | null = null;
   private lastSyncTime: string | null = null;
+  private heartbeatInFlight: boolean = false;
+  private syncInFlight: boolean = false;
   private initialized: boolean = false;
   private immune: boolean = false;
+  private seenPendingTasks: Set<string> = new Set();
+  private seenAnnouncements: Set<string> = new Set();
+  private state: ConnectionState = 'idle';
+  private stateSince: number = Date.now();
+  private healthTimer: NodeJS.Timeout | null = null;
+  private registering = false;
+  private shuttingDown: Promise<ShutdownResult> | null = null;
+  private reregistration: Promise<boolean> | null = null;
+  private health = {
+    lastHeartbeatAt: null as number | null,
+    lastSyncAt: null as number | null,
+    lastHealthCheckAt: null as number | null,
+    heartbeatFailures: 0,
+    syncFailures: 0,
+    healthFailures: 0,
+    networkFailures: 0,
+    lastError: null as string | null,
+  };
+  private logger: GSNLogger;
 
   constructor(config: ConnectorConfig) {
     this.config = {
       heartbeatInterval: 60000,
+      healthCheckInterval: 30000,
+      offlineAfterFailures: 3,
+      leaseCheckInterval: 10000,
       syncInterval: 30000,
       autoRegister: true,
       heartbeatEnabled: true,
       autoSync: true,
       immune: false,
+      outbox: false,
       ...config,
     };
 
@@ -94,6 +194,10 @@ export class GSNConnector {
       capabilities: config.capabilities || [],
     };
 
+    const logger = (config.logger || NOOP_LOGGER).child({ agentId: this.identity.id });
+    this.logger = logger.child({ module: 'connector' });
+    this.events = new GSNEventBus({ logger });
+
     // Initialize modules
     this.memory = new GSNMemory({
       agentId: this.identity.id,
@@ -101,13 +205,53 @@ export class GSNConnector {
       syncWithVault: !this.immune, // Immune agents don't sync to vault
       vaultUrl: this.immune ? undefined : config.platformUrl,
       autoSync: !this.immune && (config.autoSync !== false),
+      storage: config.storage,
+      embed: config.embed,
+      retention: config.retention,
+      maxRevisions: config.maxRevisions,
+      logger,
+    });
+
+    this.coordinator = new GSNCoordinator(this.identity, {
+      storage: config.storage,
+      leaseDurationMs: config.taskLeaseDuration,
+      reassign: (task, expiredHolderId) => this.router.selectAgent(task, [expiredHolderId])?.agentId,
+      logger,
+    });
+    this.insights = new GSNInsights(this.identity, {
+      storage: config.storage,
+      embed: config.embed,
+      maxRevisions: config.maxRevisions,
+      logger,
+    });
+    this.auth = new GSNAuth(this.identity, { logger });
+
+    this.platform = new GSNPlatformClient(config.platformUrl, this.immune, {
+      outbox: this.config.outbox ? new GSNOutbox(config.storage) : undefined,
+      requestPolicy: config.requestPolicy,
+      throwOnError: config.throwOnError,
+      fallbackUrls: config.platformUrls,
+      urlResolvers: config.urlResolvers,
+      logger,
     });
 
-    this.coordinator = new GSNCoordinator(this.identity);
-    this.insights = new GSNInsights(this.identity);
-    this.auth = new GSNAuth(this.identity, {});
+    this.router = new GSNTaskRouter(this.coordinator);
+    this.taskBridge = new GSNTaskBridge(this.coordinator, this.platform, logger);
+    this.queue = new GSNWorkQueue(this.coordinator, {}, this.taskBridge);
 
-    this.platform = new GSNPlatformClient(config.platformUrl, this.immune);
+    // Re-publish module events on the connector bus
+    this.memory.onSyncEvent(event => this.events.emit(`memory:${event.type}`, event));
+    this.coordinator.onCoordinationEvent(event => this.events.emit(`coordination:${event.type}`, event));
+    this.insights.onInsightEvent(event => this.events.emit(`insight:${event.type}`, event));
+    this.memory.onConflict(conflict => this.events.emit('memory:conflict', conflict));
+    this.insights.onConflict(conflict => this.events.emit('insight:conflict', conflict));
+    this.platform.onBaseUrlChange((url, previous) => {
+      this.events.emit('connector:url-changed', { from: previous, to: url });
+      // A key the new platform rejects is replaced on the first 401; without one, register now
+      if (this.initialized && this.config.autoRegister && !this.immune && !this.apiKey) {
+        this.reregister(`platform moved to ${url}`).catch(() => undefined);
+      }
+    });
   }
 
   /**
@@ -121,33 +265,14 @@ export class GSNConnector {
 
     let registration: PlatformRegistration | null = null;
 
-    // Step 1: Auto-register with platform
-    if (this.config.autoRegister) {
-      try {
-        registration = await this.platform.register({
-          name: this.identity.name,
-          agentId: this.identity.id,
-          capabilities: this.identity.capabilities,
-          description: this.config.description,
-          version: this.identity.version,
-          source: 'gsn-connector',
-        });
-
-        if (registration?.success) {
-          this.apiKey = registration.apiKey || null;
-          this.tier = registration.tier || 'member';
-          this.platform.setApiKey(this.apiKey);
-
-          console.log(`[GSN] Registered as ${this.identity.name} (tier: ${this.tier})`);
-          if (registration.channels) {
-            console.log(`[GSN] Accessible channels: ${registration.channels.map(c => c.name).join(', ')}`);
-          }
-        }
-      } catch (e: any) {
-        console.warn(`[GSN] Registration failed: ${e.message}. Operating in offline mode.`);
-      }
+    // Step 1: Auto-register with platform (a key restored from a snapshot is kept until rejected)
+    if (this.config.autoRegister && !this.apiKey) {
+      registration = await this.register();
     }
 
+    // Local lease expiry and deadline tracking
+    this.coordinator.startLeaseMonitor(this.config.leaseCheckInterval);
+
     // Step 2: Start heartbeat (ONLY if not immune)
     if (this.config.heartbeatEnabled && !this.immune) {
       this.startHeartbeat();
@@ -158,10 +283,64 @@ export class GSNConnector {
       this.startAutoSync();
     }
 
+    // Step 4: Probe platform health
+    if (this.config.healthCheckInterval) {
+      this.startHealthChecks();
+    }
+
     this.initialized = true;
     return registration;
   }
 
+  /**
+   * Probe the platform's health endpoint and update the connection state.
+   * Re-registers when the platform is reachable but we hold no valid API key.
+   */
+  public async checkHealth(): Promise<boolean> {
+    try {
+      const result = await this.platform.health();
+      if (isPlatformFailure(result)) {
+        await this.recordOutcome('health', result);
+        return false;
+      }
+    } catch (e) {
+      await this.recordOutcome('health', toPlatformFailure(e));
+      return false;
+    }
+
+    await this.recordOutcome('health');
+    if (this.config.autoRegister && !this.apiKey && !this.immune) {
+      await this.reregister('platform reachable again without a registration');
+    }
+    return true;
+  }
+
+  /**
+   * Current connection state with heartbeat/sync/health bookkeeping
+   */
+  public getStatus(): ConnectorStatus {
+    return {
+      state: this.state,
+      since: this.stateSince,
+      registered: this.apiKey !== null,
+      tier: this.tier,
+      lastHeartbeatAt: this.health.lastHeartbeatAt,
+      lastSyncAt: this.health.lastSyncAt,
+      lastHealthCheckAt: this.health.lastHealthCheckAt,
+      consecutiveHeartbeatFailures: this.health.heartbeatFailures,
+      consecutiveSyncFailures: this.health.syncFailures,
+      consecutiveHealthFailures: this.health.healthFailures,
+      lastError: this.health.lastError,
+    };
+  }
+
+  /**
+   * Get the current connection state
+   */
+  public getState(): ConnectionState {
+    return this.state;
+  }
+
   /**
    * Get current agent identity
    */
@@ -183,6 +362,88 @@ export class GSNConnector {
     return this.apiKey;
   }
 
+  /**
+   * Export the complete local state as a versioned JSON-safe document (see importSnapshot())
+   */
+  public exportSnapshot(): ConnectorSnapshot {
+    const snapshot: ConnectorSnapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      identity: this.identity,
+      apiKey: this.apiKey,
+      tier: this.tier,
+      lastSyncTime: this.lastSyncTime,
+      memory: this.memory.exportState(),
+      coordinator: this.coordinator.exportState(),
+      insights: this.insights.exportState(),
+      auth: this.auth.exportState(),
+    };
+    // Detach from live module state
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Load a snapshot document (object or JSON text) produced by exportSnapshot().
+   * 'replace' drops current state and adopts the snapshot's identity details, key and sync
+   * position; 'merge' keeps the newer copy of each record and only fills in a missing API key.
+   * Throws GSNValidationError if the document is malformed or belongs to another agent.
+   */
+  public importSnapshot(document: unknown, options: SnapshotImportOptions = {}): ConnectorSnapshot {
+    const snapshot = parseSnapshot(document);
+    if (snapshot.identity.id !== this.identity.id) {
+      throw new GSNValidationError(
+        [`identity.id: snapshot belongs to ${snapshot.identity.id}, this connector is ${this.identity.id}`],
+        undefined,
+        'snapshot'
+      );
+    }
+
+    const mode = options.mode || 'merge';
+    if (mode === 'replace') {
+      Object.assign(this.identity, snapshot.identity);
+      this.apiKey = snapshot.apiKey;
+      this.tier = snapshot.tier;
+      this.lastSyncTime = snapshot.lastSyncTime;
+    } else {
+      if (!this.apiKey && snapshot.apiKey) {
+        this.apiKey = snapshot.apiKey;
+        this.tier = snapshot.tier;
+      }
+      // Resume from the older sync position so nothing pulled by either side is skipped
+      const positions = [this.lastSyncTime, snapshot.lastSyncTime];
+      this.lastSyncTime = positions.includes(null) ? null : (positions as string[]).sort()[0];
+    }
+    this.platform.setApiKey(this.apiKey);
+
+    this.memory.importState(snapshot.memory, mode);
+    this.coordinator.importState(snapshot.coordinator, mode);
+    this.insights.importState(snapshot.insights, mode);
+    this.auth.importState(snapshot.auth, mode);
+
+    this.logger.info(`Imported snapshot from ${snapshot.createdAt}`, {
+      mode,
+      snippets: snapshot.memory.snippets.length,
+      tasks: snapshot.coordinator.tasks.length,
+      insights: snapshot.insights.insights.length,
+    });
+    return snapshot;
+  }
+
+  /**
+   * Build a connector for the agent in a snapshot and restore its state (call init() afterwards).
+   * The restored API key is reused until the platform rejects it.
+   */
+  public static fromSnapshot(document: unknown, config: Omit<ConnectorConfig, 'agentName' | 'agentId'>): GSNConnector {
+    const snapshot = parseSnapshot(document);
+    const connector = new GSNConnector({
+      ...config,
+      agentName: snapshot.identity.name,
+      agentId: snapshot.identity.id,
+    });
+    connector.importSnapshot(snapshot, { mode: 'replace' });
+    return connector;
+  }
+
   /**
    * Check if this connector is immune to telemetry
    */
@@ -193,10 +454,10 @@ export class GSNConnector {
   /**
    * Manual sync — push local state to platform, pull new data
    */
-  public async sync(): Promise<SyncResponse | null> {
+  public async sync(): Promise<PlatformResult<SyncResponse>> {
     if (this.immune) {
       // Immune agents: only pull, never push context
-      console.log('[GSN] Immune agent — skipping telemetry push, pull-only mode');
+      this.logger.debug('Immune agent — skipping telemetry push, pull-only mode');
       try {
         return await this.platform.sync({
           snippets: [], // Never send snippets
@@ -205,51 +466,112 @@ export class GSNConnector {
           pullSince: this.lastSyncTime,
         });
       } catch (e: any) {
-        console.warn(`[GSN] Sync pull failed: ${e.message}`);
-        return null;
+        this.logger.warn(`Sync pull failed: ${e.message}`);
+        return this.surfaceError(e);
       }
     }
 
-    // Non-immune agents: full bidirectional sync
+    return this.pushSync(true);
+  }
+
+  /**
+   * Non-immune sync: push only snippet changes since the last ack and apply what comes back.
+   * When a 401 made us re-register, retry once with the new key.
+   */
+  private async pushSync(retryWithNewKey: boolean): Promise<PlatformResult<SyncResponse>> {
     try {
-      const snippets = this.memory.getAllSnippets();
+      this.memory.enforceRetention();
+      const delta = this.memory.buildSyncDelta();
       const tasks = Array.from(this.coordinator.getSharedVault().tasks.values());
       const insights = this.insights.getAllInsights();
 
       const response = await this.platform.sync({
-        snippets,
+        snippets: delta.upserts,
+        deletedSnippets: delta.deletes,
         tasks,
         insights,
         pullSince: this.lastSyncTime,
       });
+      if (this.getState() === 'disposed') {
+        return response; // answered after a timed-out shutdown disposed the modules
+      }
 
-      this.lastSyncTime = new Date().toISOString();
+      if (isPlatformFailure(response)) {
+        this.events.emit('connector:sync-failed', { error: response });
+        if (await this.recordOutcome('sync', response) && retryWithNewKey) {
+          return this.pushSync(false);
+        }
+      } else {
+        const stale = response.pushed.stale || [];
+        this.memory.acknowledgeSync(delta, stale);
+        if (stale.length > 0) {
+          this.logger.warn('Vault rejected stale snippet revisions', { snippetIds: stale });
+          this.events.emit('memory:stale', { snippetIds: stale });
+        }
+        this.memory.applyRemoteSnippets(response.pulled?.snippets || []);
+        this.insights.applyRemoteInsights(response.pulled?.insights || []);
+        this.taskBridge.importRemoteTasks(response.pulled?.tasks);
+        await this.refreshLinkedTasks();
+        this.lastSyncTime = new Date().toISOString();
+        this.events.emit('connector:sync-completed', {
+          response,
+          pushedSnippets: delta.upserts.length,
+          deletedSnippets: delta.deletes.length,
+        });
+        await this.recordOutcome('sync');
+      }
       return response;
     } catch (e: any) {
-      console.warn(`[GSN] Sync failed: ${e.message}`);
-      return null;
+      this.logger.warn(`Sync failed: ${e.message}`);
+      const failure = toPlatformFailure(e);
+      this.events.emit('connector:sync-failed', { error: failure });
+      if (await this.recordOutcome('sync', failure) && retryWithNewKey) {
+        return this.pushSync(false);
+      }
+      return this.surfaceError(e);
     }
   }
 
   /**
    * Send a heartbeat to the platform
    */
-  public async heartbeat(): Promise<HeartbeatResponse | null> {
+  public async heartbeat(): Promise<PlatformResult<HeartbeatResponse>> {
     if (this.immune) return { success: true, ack: true, immune: true };
+    return this.sendHeartbeat(true);
+  }
 
+  /**
+   * Send one heartbeat; when its 401 made us re-register, retry once with the new key
+   */
+  private async sendHeartbeat(retryWithNewKey: boolean): Promise<PlatformResult<HeartbeatResponse>> {
     try {
-      return await this.platform.heartbeat({
-        version: this.identity.version,
-        snippetCount: this.memory.getAllSnippets().length,
-        taskCount: Array.from(this.coordinator.getSharedVault().tasks.values()).length,
-        stats: {
-          uptime: process.uptime(),
-          insightCount: this.insights.getAllInsights().length,
-        },
-      });
+      this.memory.enforceRetention();
+      const response = await this.platform.heartbeat(this.heartbeatPayload('online'));
+      if (this.getState() === 'disposed') {
+        return response; // answered after a timed-out shutdown disposed the modules
+      }
+
+      if (isPlatformFailure(response)) {
+        this.events.emit('connector:heartbeat-failed', { error: response });
+        if (await this.recordOutcome('heartbeat', response) && retryWithNewKey) {
+          return this.sendHeartbeat(false);
+        }
+      } else {
+        this.events.emit('connector:heartbeat', { response });
+        await this.recordOutcome('heartbeat');
+        this.taskBridge.importRemoteTasks(response.pendingTasks);
+        this.announceHeartbeatNews(response);
+        await this.autoClaim(response);
+      }
+      return response;
     } catch (e: any) {
-      console.warn(`[GSN] Heartbeat failed: ${e.message}`);
-      return null;
+      this.logger.warn(`Heartbeat failed: ${e.message}`);
+      const failure = toPlatformFailure(e);
+      this.events.emit('connector:heartbeat-failed', { error: failure });
+      if (await this.recordOutcome('heartbeat', failure) && retryWithNewKey) {
+        return this.sendHeartbeat(false);
+      }
+      return this.surfaceError(e);
     }
   }
 
@@ -409,13 +731,287 @@ export class GSNConnector {
     return this.platform.moltbookSearch(query, type);
   }
 
+  // ============= Offline Outbox =============
+
+  /**
+   * List platform calls queued while the platform was unreachable
+   */
+  public getOutbox(): OutboxEntry[] {
+    return this.platform.getQueuedCalls();
+  }
+
+  /**
+   * Drop a queued call so it is never replayed
+   */
+  public dropOutboxEntry(id: string): boolean {
+    return this.platform.getOutbox()?.remove(id) ?? false;
+  }
+
+  /**
+   * Replay queued calls now (also attempted after every heartbeat)
+   */
+  public async flushOutbox(): Promise<OutboxFlushResult> {
+    return this.platform.flushOutbox();
+  }
+
+  /**
+   * Emit events for pending tasks and announcements not seen in earlier heartbeats
+   */
+  private announceHeartbeatNews(response: HeartbeatResponse): void {
+    const now = Date.now();
+    (response.pendingTasks || []).forEach(task => {
+      if (rememberId(this.seenPendingTasks, task.id)) {
+        this.emitConnectorEvent({ type: 'pending-task', task, timestamp: now });
+      }
+    });
+    (response.announcements || []).forEach(announcement => {
+      if (rememberId(this.seenAnnouncements, announcement.id)) {
+        this.emitConnectorEvent({ type: 'announcement', announcement, timestamp: now });
+      }
+    });
+  }
+
+  /**
+   * Sync only pulls open bounty tasks, so pull the board too while linked tasks can still change status
+   */
+  private async refreshLinkedTasks(): Promise<void> {
+    if (!this.coordinator.getAllTasks().some(t => t.remoteId && !isTerminalStatus(t.status))) {
+      return;
+    }
+    try {
+      if (!await this.taskBridge.refresh()) {
+        this.logger.warn('Could not refresh bounty-board task statuses');
+      }
+    } catch (e: any) {
+      this.logger.warn(`Could not refresh bounty-board task statuses: ${e.message}`);
+    }
+  }
+
+  /**
+   * Claim heartbeat bounty tasks that match the auto-claim policy, best reward first,
+   * until we hold `maxConcurrentClaims` bounty tasks
+   */
+  private async autoClaim(response: HeartbeatResponse): Promise<void> {
+    const policy = this.config.autoClaim;
+    if (!policy) return;
+
+    const capabilities = (this.identity.capabilities || []).map(c => c.toLowerCase());
+    const held = this.coordinator.getAgentTasks().filter(t =>
+      t.remoteId && (t.status === 'claimed' || t.status === 'in-progress')
+    ).length;
+    let capacity = (policy.maxConcurrentClaims ?? 1) - held;
+
+    const candidates = (response.pendingTasks || [])
+      .filter(task =>
+        task.reward >= (policy.minReward ?? 0) &&
+        (!policy.categories || (task.category !== undefined && policy.categories.includes(task.category))) &&
+        (policy.matchCapabilities === false ||
+          [task.category, ...(task.tags || [])].some(label => label !== undefined && capabilities.includes(label.toLowerCase())))
+      )
+      .sort((a, b) => b.reward - a.reward);
+
+    for (const candidate of candidates) {
+      if (capacity <= 0) break;
+      const local = this.coordinator.getTaskByRemoteId(candidate.id);
+      if (!local || local.status !== 'open') continue;
+
+      try {
+        const claim = await this.taskBridge.claimTask(local.id, 'auto-claimed');
+        if (isPlatformFailure(claim) && claim.queued) {
+          // The outbox replays the claim; hold the task meanwhile so it is neither re-claimed nor over capacity
+          this.coordinator.claimTask(local.id, undefined, 'claim queued in outbox');
+        } else if (isPlatformFailure(claim)) {
+          this.logger.warn(`Auto-claim failed: ${claim.error}`, { taskId: local.id, remoteId: candidate.id, kind: claim.kind });
+          continue;
+        }
+        capacity--;
+        this.logger.info(`Auto-claimed ${candidate.title}`, {
+          taskId: local.id,
+          remoteId: candidate.id,
+          reward: candidate.reward,
+          queued: isPlatformFailure(claim),
+        });
+        this.emitConnectorEvent({
+          type: 'task-auto-claimed',
+          task: this.coordinator.getTask(local.id)!,
+          timestamp: Date.now(),
+        });
+      } catch (e: any) {
+        this.logger.warn(`Auto-claim failed: ${e.message}`, { taskId: local.id, remoteId: candidate.id });
+      }
+    }
+  }
+
+  /**
+   * Publish a connector event on the bus as `platform:<type>`
+   */
+  private emitConnectorEvent(event: ConnectorEvent): void {
+    this.events.emit(`platform:${event.type}`, event);
+  }
+
+  /**
+   * Register with the platform, adopting the returned API key and tier.
+   * Concurrent callers share one registration attempt. A disposed connector never registers,
+   * and a registration that completes after dispose() is discarded.
+   */
+  private async register(): Promise<PlatformRegistration | null> {
+    if (this.state === 'disposed') return null;
+    this.registering = true;
+    this.setState('registering');
+    let registration: PlatformRegistration | null = null;
+    try {
+      registration = await this.platform.register({
+        name: this.identity.name,
+        agentId: this.identity.id,
+        capabilities: this.identity.capabilities,
+        description: this.config.description,
+        version: this.identity.version,
+        source: 'gsn-connector',
+      });
+
+      // dispose() may have run while the request was in flight
+      if (this.getState() === 'disposed') {
+        this.registering = false;
+        return null;
+      }
+      if (registration?.success) {
+        this.apiKey = registration.apiKey || null;
+        this.tier = registration.tier || 'member';
+        this.platform.setApiKey(this.apiKey);
+
+        this.logger.info(`Registered as ${this.identity.name}`, {
+          tier: this.tier,
+          channels: registration.channels?.map(c => c.name),
+        });
+        this.events.emit('connector:registered', { agentId: this.identity.id, tier: this.tier });
+        this.health.networkFailures = 0;
+        this.health.lastError = null;
+      } else if (registration && isPlatformFailure(registration)) {
+        this.logger.warn(`Registration failed: ${registration.error}. Operating in offline mode.`, { kind: registration.kind });
+        this.events.emit('connector:registration-failed', { error: registration });
+        this.noteFailure(registration);
+      }
+    } catch (e: any) {
+      this.logger.warn(`Registration failed: ${e.message}. Operating in offline mode.`);
+      const failure = toPlatformFailure(e);
+      this.events.emit('connector:registration-failed', { error: failure });
+      this.noteFailure(failure);
+    }
+
+    this.registering = false;
+    this.updateState(this.apiKey ? 'registered' : `registration failed: ${this.health.lastError}`);
+    return registration;
+  }
+
+  /**
+   * Drop the current API key and register again, e.g. after the platform rejected it
+   */
+  private async reregister(reason: string): Promise<boolean> {
+    if (this.state === 'disposed') return false;
+    if (!this.reregistration) {
+      this.logger.info(`Re-registering: ${reason}`);
+      this.apiKey = null;
+      this.platform.setApiKey(null);
+      this.reregistration = this.register()
+        .then(() => this.apiKey !== null)
+        .finally(() => { this.reregistration = null; });
+    }
+    return this.reregistration;
+  }
+
+  /**
+   * Record the outcome of a heartbeat, sync or health probe and move the state machine.
+   * A rejected API key triggers re-registration; resolves true when that produced a new key.
+   */
+  private async recordOutcome(kind: 'heartbeat' | 'sync' | 'health', failure?: PlatformFailure): Promise<boolean> {
+    const now = Date.now();
+    const counter = `${kind}Failures` as 'heartbeatFailures' | 'syncFailures' | 'healthFailures';
+
+    if (failure) {
+      this.health[counter]++;
+      this.noteFailure(failure);
+    } else {
+      this.health[counter] = 0;
+      this.health.networkFailures = 0;
+      if (kind === 'heartbeat') this.health.lastHeartbeatAt = now;
+      if (kind === 'sync') this.health.lastSyncAt = now;
+    }
+    if (kind === 'health') this.health.lastHealthCheckAt = now;
+
+    this.updateState(failure ? `${kind} failed: ${failure.error}` : undefined);
+
+    if (failure?.kind === 'auth' && failure.cause.status === 401 && this.config.autoRegister && !this.immune) {
+      return this.reregister('API key rejected');
+    }
+    return false;
+  }
+
+  private noteFailure(failure: PlatformFailure): void {
+    this.health.lastError = failure.error;
+    if (failure.kind === 'network') {
+      this.health.networkFailures++;
+    }
+  }
+
+  /**
+   * Derive the connection state from registration and failure counters
+   */
+  private updateState(reason?: string): void {
+    if (this.state === 'disposed' || this.registering) return;
+
+    const unregistered = this.config.autoRegister && !this.immune && !this.apiKey;
+    const { heartbeatFailures, syncFailures, healthFailures, networkFailures } = this.health;
+    const next: ConnectionState =
+      unregistered || networkFailures >= (this.config.offlineAfterFailures || 3) ? 'offline'
+        : heartbeatFailures + syncFailures + healthFailures > 0 ? 'degraded'
+          : 'online';
+    this.setState(next, reason);
+  }
+
+  private setState(next: ConnectionState, reason?: string): void {
+    if (next === this.state) return;
+
+    const from = this.state;
+    this.state = next;
+    this.stateSince = Date.now();
+    this.logger.info(`Connection state ${from} → ${next}`, { reason });
+    this.events.emit('connector:state-changed', { from, to: next, reason });
+    if (next === 'online') {
+      this.events.emit('connector:online', { since: this.stateSince });
+    } else if (next === 'offline') {
+      this.events.emit('connector:offline', { reason: reason || 'offline' });
+    }
+  }
+
+  /**
+   * Start health probe timer
+   */
+  private startHealthChecks(): void {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(() => undefined);
+    }, this.config.healthCheckInterval);
+  }
+
   /**
    * Start heartbeat timer
    */
   private startHeartbeat(): void {
     if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
     this.heartbeatTimer = setInterval(async () => {
-      await this.heartbeat();
+      // Skip the tick while the previous one is still waiting on a slow platform
+      if (this.heartbeatInFlight) return;
+      this.heartbeatInFlight = true;
+      try {
+        await this.heartbeat();
+        if (this.getOutbox().length > 0) {
+          await this.flushOutbox();
+        }
+      } catch {
+        // throwOnError mode: failures were already logged by heartbeat()
+      } finally {
+        this.heartbeatInFlight = false;
+      }
     }, this.config.heartbeatInterval || 60000);
   }
 
@@ -425,10 +1021,29 @@ export class GSNConnector {
   private startAutoSync(): void {
     if (this.syncTimer) clearInterval(this.syncTimer);
     this.syncTimer = setInterval(async () => {
-      await this.sync();
+      if (this.syncInFlight) return;
+      this.syncInFlight = true;
+      try {
+        await this.sync();
+      } catch {
+        // throwOnError mode: failures were already logged by sync()
+      } finally {
+        this.syncInFlight = false;
+      }
     }, this.config.syncInterval || 30000);
   }
 
+  /**
+   * Rethrow a caught error in throwOnError mode, otherwise convert it to a PlatformFailure
+   */
+  private surfaceError(error: unknown): PlatformFailure {
+    const failure = toPlatformFailure(error);
+    if (this.config.throwOnError) {
+      throw failure.cause;
+    }
+    return failure;
+  }
+
   /**
    * Generate a random agent ID
    */
@@ -440,18 +1055,125 @@ export class GSNConnector {
   }
 
   /**
-   * Clean up all resources
+   * Shut down gracefully: stop timers, seal memory and insights against new writes, push a
+   * final sync, flush the outbox and send a "going offline" heartbeat within `timeoutMs`,
+   * then dispose. Safe to call more than once.
    */
-  public dispose(): void {
+  public async shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+    if (!this.shuttingDown) {
+      this.shuttingDown = this.drain(options.timeoutMs ?? 10000).finally(() => this.dispose());
+    }
+    return this.shuttingDown;
+  }
+
+  private async drain(timeoutMs: number): Promise<ShutdownResult> {
+    const result: ShutdownResult = { synced: false, outbox: null, notified: false, timedOut: false };
+    this.clearTimers();
+    this.memory.seal();
+    this.insights.seal();
+
+    if (this.immune || this.state === 'disposed' || (this.config.autoRegister && !this.apiKey)) {
+      return result;
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    const step = async <T>(name: string, run: () => Promise<T>): Promise<T | undefined> => {
+      if (result.timedOut) return undefined;
+      try {
+        const value = await withTimeout(run(), deadline - Date.now());
+        if (value === TIMED_OUT) {
+          result.timedOut = true;
+          this.logger.warn(`Shutdown ${name} timed out`, { timeoutMs });
+          return undefined;
+        }
+        return value;
+      } catch (e: any) {
+        this.logger.warn(`Shutdown ${name} failed: ${e.message}`);
+        return undefined;
+      }
+    };
+
+    const synced = await step('sync', () => this.sync());
+    result.synced = !!synced && !isPlatformFailure(synced);
+
+    if (this.getOutbox().length > 0) {
+      result.outbox = (await step('outbox flush', () => this.flushOutbox())) || null;
+    }
+
+    const farewell = await step('offline heartbeat', () => this.platform.heartbeat(this.heartbeatPayload('offline')));
+    result.notified = !!farewell && !isPlatformFailure(farewell);
+
+    this.logger.info(`Shutdown drained for ${this.identity.name}`, { ...result, outbox: result.outbox?.remaining });
+    return result;
+  }
+
+  private heartbeatPayload(status: 'online' | 'offline') {
+    return {
+      version: this.identity.version,
+      snippetCount: this.memory.getAllSnippets().length,
+      taskCount: Array.from(this.coordinator.getSharedVault().tasks.values()).length,
+      stats: {
+        uptime: process.uptime(),
+        insightCount: this.insights.getAllInsights().length,
+      },
+      status,
+    };
+  }
+
+  private clearTimers(): void {
     if (this.heartbeatTimer) { clearInterval(this.heartbeatTimer); this.heartbeatTimer = null; }
     if (this.syncTimer) { clearInterval(this.syncTimer); this.syncTimer = null; }
+    if (this.healthTimer) { clearInterval(this.healthTimer); this.healthTimer = null; }
+  }
+
+  /**
+   * Clean up all resources immediately; changes not yet synced are dropped (see shutdown())
+   */
+  public dispose(): void {
+    this.clearTimers();
     this.memory.dispose();
     this.coordinator.dispose();
     this.insights.dispose();
     this.auth.dispose();
+    this.router.dispose();
+    this.queue.dispose();
+    this.seenPendingTasks.clear();
+    this.seenAnnouncements.clear();
     this.initialized = false;
-    console.log(`[GSN] Connector disposed for ${this.identity.name}`);
+    this.setState('disposed');
+    this.logger.info(`Connector disposed for ${this.identity.name}`);
+    this.events.emit('connector:disposed', { agentId: this.identity.id });
+    this.events.clear();
+  }
+}
+
+const TIMED_OUT = Symbol('timed-out');
+
+/**
+ * Race a promise against a timer without leaving the timer running
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> {
+  if (ms <= 0) return TIMED_OUT;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>(resolve => { timer = setTimeout(() => resolve(TIMED_OUT), ms); });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Add an ID to a bounded seen-set, dropping the oldest past MAX_SEEN_IDS.
+ * Returns false if the ID was already there.
+ */
+function rememberId(seen: Set<string>, id: string): boolean {
+  if (seen.has(id)) return false;
+  seen.add(id);
+  if (seen.size > MAX_SEEN_IDS) {
+    seen.delete(seen.values().next().value as string);
   }
+  return true;
 }
 
 /**
@@ -1,5 +1,7 @@
 // GSN Types v3.0 — Shared type definitions for Connector ↔ Platform
 
+import type { GSNError } from './gsn-errors';
+
 export interface AgentIdentity {
   id: string;
   name: string;
@@ -40,8 +42,67 @@ export interface ConnectorConfig {
    * no data leaves the local instance.
    */
   immune?: boolean;
+  /** Storage backend for snippets, tasks and insights (default: in-process only) */
+  storage?: StorageAdapter;
+  /**
+   * Queue mutating platform calls that fail with a network error and replay
+   * them once the platform is reachable again (default: false).
+   * Uses `storage` for durability when provided.
+   */
+  outbox?: boolean;
+  /** Lease length in ms for assigned tasks; expired leases are reassigned via `router` or failed */
+  taskLeaseDuration?: number;
+  /** How often to expire leases and check task deadlines, in ms (default: 10000) */
+  leaseCheckInterval?: number;
+  /** Claim matching bounty tasks from heartbeats automatically (default: off) */
+  autoClaim?: AutoClaimPolicy;
+  /** Fallback platform URLs tried in order when `platformUrl` stops responding */
+  platformUrls?: string[];
+  /** Look up the current platform URL(s) on failover, e.g. fileUrlResolver() or wellKnownUrlResolver() */
+  urlResolvers?: PlatformUrlResolver[];
+  /** Embedding function for memory and insight searchRanked(); ranking is BM25 only without one */
+  embed?: EmbeddingFunction;
+  /** TTL, size caps and eviction for memory snippets (default: unbounded) */
+  retention?: RetentionPolicy;
+  /** Revisions kept per snippet and insight for diff and rollback; 0 keeps none (default: 20) */
+  maxRevisions?: number;
+  /** How often to probe platform health() in ms; 0 disables (default: 30000) */
+  healthCheckInterval?: number;
+  /** Consecutive network failures before the connector is considered offline (default: 3) */
+  offlineAfterFailures?: number;
+  /** Where connector and module logs go (default: discarded) */
+  logger?: GSNLogger;
+  /** Timeout, retry and circuit breaker settings for platform HTTP calls */
+  requestPolicy?: RequestPolicy;
+  /**
+   * Throw typed GSNError subclasses from platform calls instead of resolving
+   * with `{ success: false, ... }` (default: false). Queued outbox calls still resolve.
+   */
+  throwOnError?: boolean;
+}
+
+/**
+ * HTTP request policy for GSNPlatformClient. Unset fields use the defaults noted below.
+ */
+export interface RequestPolicy {
+  /** Abort a single attempt after this many ms (default: 10000) */
+  timeoutMs?: number;
+  /** Extra attempts for idempotent calls — GETs and POSTs carrying an idempotency key (default: 2) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff (default: 250) */
+  backoffBaseMs?: number;
+  /** Upper bound for a single backoff or Retry-After wait; longer Retry-After values end retries (default: 10000) */
+  backoffMaxMs?: number;
+  /** HTTP statuses treated as transient and retried (default: [429, 502, 503, 504]) */
+  retryOnStatus?: number[];
+  /** Consecutive failed calls that open the circuit (default: 5) */
+  circuitBreakerThreshold?: number;
+  /** How long the circuit stays open before a trial call is let through (default: 30000) */
+  circuitBreakerResetMs?: number;
 }
 
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
 export interface PlatformRegistration {
   success: boolean;
   agentId?: string;
@@ -54,6 +115,204 @@ export interface PlatformRegistration {
   existing?: boolean;
 }
 
+export interface ShutdownOptions {
+  /** Budget for the final sync, outbox flush and offline heartbeat together, in ms (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * What GSNConnector.shutdown() managed to do before disposing
+ */
+export interface ShutdownResult {
+  /** The final sync was acknowledged by the platform */
+  synced: boolean;
+  /** Outbox replay result, when there was anything queued */
+  outbox: OutboxFlushResult | null;
+  /** The platform accepted the "going offline" heartbeat */
+  notified: boolean;
+  /** The timeout cut the remaining steps short */
+  timedOut: boolean;
+}
+
+/**
+ * Returns the platform URL(s) currently advertised, e.g. read from a file or a well-known endpoint
+ */
+export type PlatformUrlResolver = () => Promise<string | string[] | null | undefined>;
+
+/**
+ * Connector connection lifecycle.
+ * idle → registering → online ⇄ degraded ⇄ offline; any state → disposed.
+ */
+export type ConnectionState = 'idle' | 'registering' | 'online' | 'degraded' | 'offline' | 'disposed';
+
+/**
+ * Snapshot returned by GSNConnector.getStatus()
+ */
+export interface ConnectorStatus {
+  state: ConnectionState;
+  /** When the current state was entered (epoch ms) */
+  since: number;
+  registered: boolean;
+  tier: string;
+  lastHeartbeatAt: number | null;
+  lastSyncAt: number | null;
+  lastHealthCheckAt: number | null;
+  consecutiveHeartbeatFailures: number;
+  consecutiveSyncFailures: number;
+  consecutiveHealthFailures: number;
+  lastError: string | null;
+}
+
+/**
+ * Maps text to a vector for similarity search; may call a local model
+ */
+export type EmbeddingFunction = (text: string) => number[] | Promise<number[]>;
+
+export interface SearchOptions {
+  /** Maximum number of results (default: 10) */
+  topK?: number;
+  /** Only documents carrying every one of these tags */
+  tags?: string[];
+  /** Drop results scoring below this */
+  minScore?: number;
+}
+
+/**
+ * Why a document scored what it did
+ */
+export interface ScoreExplanation {
+  /** Sum of the per-term BM25 contributions */
+  bm25: number;
+  /** One entry per query term × matching indexed term (prefix matches count half) */
+  terms: Array<{ term: string; matched: string; tf: number; idf: number; score: number }>;
+  /** Cosine similarity to the query embedding, when an embedding function is configured */
+  cosine?: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  explanation: ScoreExplanation;
+}
+
+/**
+ * A ranked search result carrying the matched record
+ */
+export interface RankedResult<T> {
+  item: T;
+  score: number;
+  explanation: ScoreExplanation;
+}
+
+/**
+ * Parsed query expression (see parseQuery() for the string syntax)
+ */
+export type QueryNode =
+  | { op: 'tag'; tag: string }
+  | { op: 'prefix'; prefix: string }
+  | { op: 'field'; field: 'agentId' | 'status'; value: string }
+  | { op: 'range'; field: 'createdAt' | 'confidence'; min?: number; max?: number; minExclusive?: boolean; maxExclusive?: boolean }
+  | { op: 'and'; nodes: QueryNode[] }
+  | { op: 'or'; nodes: QueryNode[] }
+  | { op: 'not'; node: QueryNode };
+
+/**
+ * The fields of a record a query can match on
+ */
+export interface QueryFields {
+  tags: string[];
+  agentId?: string;
+  /** Snippet `timestamp`, task and insight `createdAt` */
+  createdAt?: number;
+  confidence?: number;
+  status?: string;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context attached to a log line
+ */
+export interface LogFields {
+  agentId?: string;
+  module?: string;
+  taskId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Leveled, structured logger accepted by the connector and every module
+ */
+export interface GSNLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds `fields` to every line */
+  child(fields: LogFields): GSNLogger;
+}
+
+/**
+ * Which heartbeat bounty tasks the connector claims on its own
+ */
+export interface AutoClaimPolicy {
+  /** Only claim tasks in these categories */
+  categories?: string[];
+  /** Only claim tasks paying at least this much */
+  minReward?: number;
+  /** Require the task's category or a tag to be one of our capabilities (default: true) */
+  matchCapabilities?: boolean;
+  /** Most bounty tasks held (claimed or in progress) at once (default: 1) */
+  maxConcurrentClaims?: number;
+}
+
+/**
+ * Connector-level notification emitted from heartbeat handling
+ */
+export type ConnectorEvent =
+  | { type: 'pending-task'; task: HeartbeatPendingTask; timestamp: number }
+  | { type: 'announcement'; announcement: Announcement; timestamp: number }
+  | { type: 'task-auto-claimed'; task: Task; timestamp: number };
+
+/**
+ * Topics published on the connector event bus and their payloads.
+ * Subscribe to one topic, a family (`coordination:*`) or everything (`*`).
+ */
+export interface GSNEventMap {
+  'memory:add': MemorySyncEvent;
+  'memory:update': MemorySyncEvent;
+  'memory:delete': MemorySyncEvent;
+  'memory:conflict': MergeConflict<ContextSnippet>;
+  /** Pushed snippet changes the vault refused as stale; they stay queued until a pull supersedes them */
+  'memory:stale': { snippetIds: string[] };
+  'coordination:task-created': CoordinationEvent;
+  'coordination:task-assigned': CoordinationEvent;
+  'coordination:task-updated': CoordinationEvent;
+  'coordination:task-completed': CoordinationEvent;
+  'coordination:task-failed': CoordinationEvent;
+  'coordination:task-unblocked': CoordinationEvent;
+  'coordination:lease-expired': CoordinationEvent;
+  'coordination:deadline-missed': CoordinationEvent;
+  'insight:insight-generated': KnowledgeDistillationEvent;
+  'insight:knowledge-updated': KnowledgeDistillationEvent;
+  'insight:pattern-identified': KnowledgeDistillationEvent;
+  'insight:conflict': MergeConflict<Insight>;
+  'platform:pending-task': Extract<ConnectorEvent, { type: 'pending-task' }>;
+  'platform:announcement': Extract<ConnectorEvent, { type: 'announcement' }>;
+  'platform:task-auto-claimed': Extract<ConnectorEvent, { type: 'task-auto-claimed' }>;
+  'connector:registered': { agentId: string; tier: string };
+  'connector:registration-failed': { error: PlatformFailure };
+  'connector:heartbeat': { response: HeartbeatResponse };
+  'connector:heartbeat-failed': { error: PlatformFailure };
+  'connector:sync-completed': { response: SyncResponse; pushedSnippets: number; deletedSnippets: number };
+  'connector:sync-failed': { error: PlatformFailure };
+  'connector:state-changed': { from: ConnectionState; to: ConnectionState; reason?: string };
+  'connector:url-changed': { from: string; to: string };
+  'connector:online': { since: number };
+  'connector:offline': { reason: string };
+  'connector:disposed': { agentId: string };
+}
+
 export interface PlatformChannel {
   id: string;
   name: string;
@@ -65,8 +324,39 @@ export interface ContextSnippet {
   agentId: string;
   content: string;
   timestamp: number;
+  updatedAt?: number;
   tags: string[];
   metadata?: Record<string, unknown>;
+  /** Epoch ms after which retention removes the snippet */
+  expiresAt?: number;
+  /** Pinned snippets are never expired or evicted */
+  pinned?: boolean;
+  /** Starts at 1 and increases with every update, so the vault can reject stale writes */
+  revision?: number;
+  /** Agent ID → number of edits by that agent this version has seen; detects concurrent edits */
+  clock?: VectorClock;
+}
+
+/**
+ * Which unpinned snippets go first when memory is over its caps
+ */
+export type EvictionStrategy = 'oldest' | 'lru' | 'lowest-priority';
+
+/**
+ * Bounds on local memory. Expired and evicted snippets are deleted like deleteSnippet(),
+ * so the deletion reaches the vault on the next sync.
+ */
+export interface RetentionPolicy {
+  /** TTL given to new snippets that don't set their own */
+  defaultTtlMs?: number;
+  /** Maximum number of snippets */
+  maxSnippets?: number;
+  /** Maximum total snippet content size in UTF-8 bytes */
+  maxBytes?: number;
+  /** Default: 'oldest' (by creation time) */
+  eviction?: EvictionStrategy;
+  /** Tag → priority for 'lowest-priority'; a snippet ranks as its highest-priority tag (unlisted tags: 0) */
+  tagPriorities?: Record<string, number>;
 }
 
 export interface Task {
@@ -83,23 +373,117 @@ export interface Task {
   tags?: string[];
   createdAt: number;
   updatedAt: number;
+  /** IDs of tasks that must complete before this one can start */
+  dependsOn?: string[];
+  /** Capabilities an assignee must have for the task router to pick it */
+  requiredCapabilities?: string[];
+  /** Epoch ms by which the task should be finished */
+  deadline?: number;
+  /** Bounty-board task ID when the task mirrors a platform task */
+  remoteId?: string;
+  /** Set once the monitor has reported the deadline as missed */
+  deadlineMissedAt?: number;
+  /** Current claim on the task; cleared when it leaves assigned/claimed/in-progress */
+  lease?: TaskLease;
   metadata?: Record<string, unknown>;
 }
 
-export type TaskStatus = 'pending' | 'assigned' | 'in-progress' | 'completed' | 'failed' | 'cancelled' | 'open' | 'claimed';
+/**
+ * Time-limited claim an assignee must renew to keep a task
+ */
+export interface TaskLease {
+  holderId: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export type TaskStatus = 'pending' | 'assigned' | 'in-progress' | 'completed' | 'failed' | 'cancelled' | 'open' | 'claimed' | 'blocked';
+
+/**
+ * One entry in a task's status audit trail
+ */
+export interface TaskStatusChange {
+  taskId: string;
+  /** Previous status, or null for the initial status on creation */
+  from: TaskStatus | null;
+  to: TaskStatus;
+  /** Agent that made the change */
+  agentId: string;
+  timestamp: number;
+  reason?: string;
+}
 export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
 
 export interface TaskOptions {
   status?: TaskStatus;
   priority?: TaskPriority;
   context?: ContextSnippet[];
+  /** Prerequisite task IDs; the task stays 'blocked' until all of them complete */
+  dependsOn?: string[];
+  requiredCapabilities?: string[];
+  /** Epoch ms deadline */
+  deadline?: number;
+  reward?: number;
+  category?: string;
+  tags?: string[];
+  remoteId?: string;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * An agent the task router may assign work to
+ */
+export interface RoutingCandidate {
+  agentId: string;
+  capabilities: string[];
+  /** Leaderboard reputation, when known */
+  reputation?: number;
+  /** Tasks currently assigned, claimed or in progress for this agent */
+  load: number;
+}
+
+/**
+ * Why the task router picked an assignee; stored with the task assignment
+ */
+export interface RoutingDecision {
+  agentId: string;
+  strategy: string;
+  /** Agents that had every required capability */
+  eligible: string[];
+  load: number;
+  reputation?: number;
+  timestamp: number;
+}
+
+/**
+ * A task that exhausted its work-queue attempts
+ */
+export interface DeadLetter {
+  task: Task;
+  attempts: number;
+  reason?: string;
+  timestamp: number;
+}
+
+export interface WorkflowProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  blocked: number;
+  /** Tasks that can start now (pending with every dependency completed) */
+  ready: number;
+  /** Assigned, claimed or in-progress tasks */
+  active: number;
+  /** Completed share of all tasks, 0–1 */
+  ratio: number;
+}
+
 export interface AuthOptions {
   secretKey?: string;
   tokenExpiry?: number;
   allowedAgents?: string[];
+  logger?: GSNLogger;
 }
 
 export interface MemorySyncEvent {
@@ -108,8 +492,29 @@ export interface MemorySyncEvent {
   timestamp: number;
 }
 
+/**
+ * Incremental set of snippet changes accumulated since the last acknowledged sync.
+ */
+export interface MemorySyncDelta {
+  /** Snippets added or updated since the last acknowledged sync */
+  upserts: ContextSnippet[];
+  /** IDs of snippets deleted since the last acknowledged sync */
+  deletes: string[];
+  /** Highest change sequence included in this delta (passed back on acknowledgement) */
+  sequence: number;
+  /** Time of the last acknowledged sync, or null if this agent never synced */
+  since: number | null;
+}
+
+/**
+ * Pushes a delta to the shared vault. Resolves with the remote snippets pulled
+ * in exchange, or null when the push was not accepted.
+ */
+export type MemorySyncTransport = (delta: MemorySyncDelta) => Promise<ContextSnippet[] | null>;
+
 export interface CoordinationEvent {
-  type: 'task-created' | 'task-assigned' | 'task-updated' | 'task-completed' | 'task-failed';
+  type: 'task-created' | 'task-assigned' | 'task-updated' | 'task-completed' | 'task-failed' | 'task-unblocked'
+    | 'lease-expired' | 'deadline-missed';
   task: Task;
   timestamp: number;
 }
@@ -126,6 +531,60 @@ export interface Insight {
   createdAt: number;
   lastUpdated: number;
   metadata?: Record<string, unknown>;
+  /** Starts at 1 and increases with every update, so the vault can reject stale writes */
+  revision?: number;
+  /** Agent ID → number of edits by that agent this version has seen; detects concurrent edits */
+  clock?: VectorClock;
+}
+
+/**
+ * A past (or the current) version of a snippet or insight
+ */
+export interface Revision<T> {
+  revision: number;
+  /** Agent that made the change */
+  agentId: string;
+  timestamp: number;
+  record: T;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Agent ID → event counter
+ */
+export type VectorClock = Record<string, number>;
+
+export type ClockOrder = 'before' | 'after' | 'equal' | 'concurrent';
+
+/**
+ * A pulled record edited concurrently with the local copy, with different content on each side.
+ * The local copy is kept unchanged until the conflict is resolved.
+ */
+export interface MergeConflict<T> {
+  id: string;
+  local: T;
+  remote: T;
+  /** Content fields that differ */
+  fields: string[];
+  detectedAt: number;
+}
+
+/**
+ * Keep the local content, take the remote content, or supply the content fields yourself.
+ * Tags and metadata are merged either way.
+ */
+export type ConflictResolution<T> = 'local' | 'remote' | Partial<T>;
+
+export interface RevisionDiff {
+  id: string;
+  from: number;
+  to: number;
+  changes: FieldChange[];
 }
 
 export interface KnowledgeDistillationEvent {
@@ -150,22 +609,368 @@ export interface SharedVault {
   agents: Map<string, AgentIdentity>;
 }
 
+/**
+ * Persistence backend for module state. Each module keeps its records in
+ * named collections of key → JSON-serializable value.
+ */
+export interface StorageAdapter {
+  /** Load every record of a collection */
+  load<T>(collection: string): Map<string, T>;
+  /** Insert or replace a record */
+  put<T>(collection: string, key: string, value: T): void;
+  /** Remove a record */
+  delete(collection: string, key: string): void;
+  /** Remove every record of a collection */
+  clear(collection: string): void;
+}
+
+/**
+ * A mutating platform call waiting in the outbox to be replayed
+ */
+export interface OutboxEntry {
+  id: string;
+  /** Sent as `x-idempotency-key` so the platform can drop duplicate replays */
+  idempotencyKey: string;
+  path: string;
+  body: unknown;
+  sequence: number;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface OutboxFlushResult {
+  /** Entries accepted by the platform */
+  replayed: number;
+  /** Entries the platform rejected with a client error; they are dropped */
+  rejected: OutboxEntry[];
+  /** Entries still queued */
+  remaining: number;
+}
+
+/**
+ * Bounty-board task advertised in a heartbeat response
+ */
+export interface HeartbeatPendingTask {
+  id: string;
+  title: string;
+  reward: number;
+  priority: string;
+  category?: string;
+  tags?: string[];
+}
+
 export interface HeartbeatResponse {
   success: boolean;
   ack: boolean;
   immune?: boolean;
-  pendingTasks?: Array<{ id: string; title: string; reward: number; priority: string }>;
-  announcements?: Array<{ id: string; title: string; content: string; created: string }>;
+  pendingTasks?: HeartbeatPendingTask[];
+  announcements?: Announcement[];
   serverTime?: string;
 }
 
 export interface SyncResponse {
   success: boolean;
-  pushed: { snippets: number; tasks: number; insights: number };
+  pushed: {
+    snippets: number;
+    tasks: number;
+    insights: number;
+    /** Snippets whose pushed revision was older than the vault's copy and were not applied */
+    stale?: string[];
+  };
   pulled: {
-    tasks?: Array<{ id: string; title: string; reward: number; priority: string; category: string }>;
-    announcements?: Array<{ id: string; title: string; content: string; created: string }>;
+    snippets?: ContextSnippet[];
+    /** Insights other agents pushed since `pullSince` */
+    insights?: Insight[];
+    tasks?: Array<{ id: string; title: string; reward: number; priority: string; category?: string }>;
+    announcements?: Announcement[];
   };
 }
 
+// ============= Platform API Responses =============
+
+/**
+ * Returned by GSNPlatformClient instead of throwing when a call fails
+ * (network error, HTTP error, or a response that does not match its schema).
+ */
+export interface PlatformFailure {
+  success: false;
+  /** Human-readable message (same as `cause.message`) */
+  error: string;
+  /** What went wrong — branch on this instead of parsing `error` */
+  kind: GSNErrorKind;
+  /** Typed error (GSNNetworkError, GSNTierError, GSNValidationError, ...) */
+  cause: GSNError;
+  /** True when the call was queued in the outbox for replay */
+  queued?: boolean;
+  outboxId?: string;
+}
+
+export type PlatformResult<T> = T | PlatformFailure;
+
+export type GSNErrorKind =
+  | 'network'
+  | 'auth'
+  | 'tier-insufficient'
+  | 'rate-limited'
+  | 'not-found'
+  | 'validation'
+  | 'http'
+  | 'invalid-transition'
+  | 'invalid-dependency'
+  | 'sealed'
+  | 'unknown';
+
+export interface Announcement {
+  id: string;
+  title: string;
+  content: string;
+  created: string;
+}
+
+export interface PlatformMessage {
+  id: string;
+  content: string;
+  subject?: string;
+  channelId?: string;
+  fromAgentId?: string;
+  fromAgentName?: string;
+  toAgentId?: string;
+  created: string;
+  read?: boolean;
+}
+
+export interface SendMessageResponse {
+  success: true;
+  messageId?: string;
+}
+
+export interface MessagesResponse {
+  success: true;
+  messages: PlatformMessage[];
+}
+
+export interface InboxResponse {
+  success: true;
+  messages: PlatformMessage[];
+  unread?: number;
+}
+
+export interface BountyTask {
+  id: string;
+  title: string;
+  description?: string;
+  reward: number;
+  category?: string;
+  priority?: string;
+  status: string;
+  tags?: string[];
+  deadline?: string;
+  createdBy?: string;
+  claimedBy?: string;
+  created?: string;
+}
+
+export interface TaskResponse {
+  success: true;
+  task: BountyTask;
+  message?: string;
+}
+
+export interface TasksResponse {
+  success: true;
+  tasks: BountyTask[];
+}
+
+export interface TaskCategoriesResponse {
+  success: true;
+  categories: string[];
+  popularTags?: string[];
+}
+
+export interface KnowledgeEntry {
+  id: string;
+  title: string;
+  content?: string;
+  summary?: string;
+  tags: string[];
+  authorId?: string;
+  authorName?: string;
+  upvotes?: number;
+  views?: number;
+  created?: string;
+}
+
+export interface KnowledgeSearchResponse {
+  success: true;
+  results: KnowledgeEntry[];
+}
+
+export interface KnowledgeEntryResponse {
+  success: true;
+  entry: KnowledgeEntry;
+}
+
+export interface KnowledgeTrendingResponse {
+  success: true;
+  entries: KnowledgeEntry[];
+}
+
+export interface UpvoteResponse {
+  success: true;
+  upvotes?: number;
+}
+
+export interface PlatformStats {
+  success: true;
+  agents?: number;
+  onlineAgents?: number;
+  tasks?: number;
+  knowledge?: number;
+  messages?: number;
+}
+
+export interface LeaderboardEntry {
+  agentId: string;
+  name: string;
+  reputation: number;
+  tasksCompleted?: number;
+  tier?: string;
+  rank?: number;
+}
+
+export interface LeaderboardResponse {
+  success: true;
+  leaderboard: LeaderboardEntry[];
+}
+
+export interface AnnouncementsResponse {
+  success: true;
+  announcements: Announcement[];
+}
+
+export interface AgentProfile {
+  agentId: string;
+  name: string;
+  tier: string;
+  reputation: number;
+  tasksCompleted: number;
+  capabilities?: string[];
+  knowledgeContributed?: number;
+  joined?: string;
+  lastSeen?: string;
+}
+
+export interface ProfileResponse {
+  success: true;
+  profile: AgentProfile;
+}
+
+export interface PlatformAgent {
+  id: string;
+  name: string;
+  type?: string;
+  tier?: string;
+  capabilities?: string[];
+  reputation?: number;
+  lastSeen?: string;
+}
+
+export interface AgentsResponse {
+  success: true;
+  agents: PlatformAgent[];
+}
+
+export interface SubscribeResponse {
+  success: true;
+  tier: string;
+  checkoutUrl?: string;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: string[];
+  active?: boolean;
+}
+
+export interface WebhookResponse {
+  success: true;
+  webhook: Webhook;
+}
+
+export interface WebhooksResponse {
+  success: true;
+  webhooks: Webhook[];
+}
+
+export interface MoltbookPost {
+  id: string;
+  title: string;
+  body?: string;
+  author?: string;
+  submolt?: string;
+  upvotes?: number;
+  comments?: number;
+  url?: string;
+  created?: string;
+}
+
+export interface MoltbookAgent {
+  name: string;
+  karma?: number;
+  followers?: number;
+}
+
+export interface MoltbookPostResponse {
+  success: true;
+  post: MoltbookPost;
+}
+
+export interface MoltbookFeedResponse {
+  success: true;
+  posts: MoltbookPost[];
+}
+
+export interface MoltbookSearchResponse {
+  success: true;
+  posts?: MoltbookPost[];
+  agents?: MoltbookAgent[];
+}
+
+export interface MoltbookActionResponse {
+  success: true;
+  id?: string;
+  message?: string;
+}
+
+export interface MoltbookNotification {
+  id: string;
+  type: string;
+  content: string;
+  read?: boolean;
+  created?: string;
+}
+
+export interface MoltbookNotificationsResponse {
+  success: true;
+  notifications: MoltbookNotification[];
+}
+
+export interface MoltbookProfileResponse {
+  success: true;
+  profile: MoltbookAgent;
+}
+
+export interface ImmunityResponse {
+  success: true;
+  immune: boolean;
+}
+
+export interface HealthResponse {
+  status: string;
+  version?: string;
+  uptime?: number;
+}
+
 export type KnowledgeBase = Map<string, Insight>;
@@ -1,7 +1,31 @@
-// Test file for GSN Connector
-// This is a placeholder test to verify the build works
+// Unit tests for the GSN Connector modules (memory, coordination, insights, platform client, ...)
 
-import { GSNMemory, GSNCoordinator, GSNInsights, GSNAuth } from './index';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  GSNMemory,
+  GSNCoordinator,
+  GSNInsights,
+  GSNAuth,
+  GSNOutbox,
+  GSNPlatformClient,
+  GSNValidationError,
+  GSNTierError,
+  GSNTaskTransitionError,
+  GSNDependencyError,
+  GSNWorkflow,
+  GSNTaskRouter,
+  GSNWorkQueue,
+  GSNEventBus,
+  GSNConnector,
+  GSNEventMap,
+  GSNSearchIndex,
+  JsonLogger,
+  JsonLinesStorage,
+  isPlatformFailure,
+  parseQuery,
+} from '../src';
 
 describe('GSN Connector', () => {
   let memory: GSNMemory;
@@ -67,4 +91,726 @@ describe('GSN Connector', () => {
     expect(validated).not.toBeNull();
     expect(validated?.scope).toBe('read');
   });
+
+  test('should push only changes since the last acknowledged sync', async () => {
+    const pushed: string[][] = [];
+    const synced = new GSNMemory({
+      agentId: agentIdentity.id,
+      vaultUrl: 'http://localhost:3001',
+      transport: async delta => {
+        pushed.push([...delta.upserts.map(s => s.id), ...delta.deletes]);
+        return [];
+      },
+    });
+
+    const first = synced.addSnippet('first', ['a']);
+    await synced.syncWithSharedVault();
+    const second = synced.addSnippet('second', ['b']);
+    synced.deleteSnippet(first.id);
+    await synced.syncWithSharedVault();
+    await synced.syncWithSharedVault();
+
+    expect(pushed).toEqual([[first.id], [second.id, first.id], []]);
+    synced.dispose();
+  });
+
+  test('should keep changes made while a sync is in flight', () => {
+    const snippet = memory.addSnippet('draft', []);
+    const delta = memory.buildSyncDelta();
+    memory.updateSnippet(snippet.id, { content: 'final' });
+    memory.acknowledgeSync(delta);
+
+    const pending = memory.getPendingChanges();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].snippet.content).toBe('final');
+  });
+
+  test('should apply pulled snippets without overwriting unsynced local edits', () => {
+    const local = memory.addSnippet('local edit', []);
+    const applied = memory.applyRemoteSnippets([
+      { id: local.id, agentId: 'other', content: 'remote edit', timestamp: 1, tags: [] },
+      { id: 'remote-1', agentId: 'other', content: 'from vault', timestamp: 1, tags: ['shared'] },
+    ]);
+
+    expect(applied).toBe(1);
+    expect(memory.getSnippet(local.id)?.content).toBe('local edit');
+    expect(memory.getSnippet('remote-1')?.content).toBe('from vault');
+    expect(memory.getPendingChanges()).toHaveLength(1);
+  });
+
+  test('should resume snippets, tasks and insights from file storage', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsn-storage-'));
+    try {
+      const storage = new JsonLinesStorage(dir);
+      const stored = new GSNMemory({ agentId: agentIdentity.id, storage });
+      const storedCoordinator = new GSNCoordinator(agentIdentity, { storage });
+      const storedInsights = new GSNInsights(agentIdentity, { storage });
+
+      const snippet = stored.addSnippet('persist me', ['keep']);
+      const task = storedCoordinator.createTask('Persisted', 'Survives restart');
+      storedCoordinator.assignTask(task.id, 'agent-2', 'take it');
+      storedInsights.generateInsight('Persisted insight', 'content', { tags: ['keep'] });
+      stored.dispose();
+      storedCoordinator.dispose();
+      storedInsights.dispose();
+
+      const reopened = new JsonLinesStorage(dir);
+      const restored = new GSNMemory({ agentId: agentIdentity.id, storage: reopened });
+      const restoredCoordinator = new GSNCoordinator(agentIdentity, { storage: reopened });
+      const restoredInsights = new GSNInsights(agentIdentity, { storage: reopened });
+
+      expect(restored.getSnippet(snippet.id)?.content).toBe('persist me');
+      expect(restored.getPendingChanges()).toHaveLength(1);
+      expect(restoredCoordinator.getTask(task.id)?.status).toBe('assigned');
+      expect(restoredCoordinator.getTaskAssignments(task.id)[0].toAgentId).toBe('agent-2');
+      expect(restoredInsights.getInsightsByTag('keep')).toHaveLength(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should queue failed writes in the outbox and replay them in order', async () => {
+    const originalFetch = global.fetch;
+    const sent: Array<{ path: string; key?: string }> = [];
+    let online = false;
+    global.fetch = jest.fn(async (url: any, init: any) => {
+      if (!online) throw new Error('ECONNREFUSED');
+      const path = new URL(String(url)).pathname;
+      if (path === '/api/health') return new Response(JSON.stringify({ status: 'ok' }), { status: 200 });
+      sent.push({ path, key: init.headers['x-idempotency-key'] });
+      return new Response(JSON.stringify({ success: true }), { status: 200 });
+    }) as typeof fetch;
+
+    try {
+      const client = new GSNPlatformClient('http://gsn.test', false, {
+        outbox: new GSNOutbox(),
+        requestPolicy: { maxRetries: 0 },
+      });
+      const queued = await client.sendMessage({ channelId: 'general', content: 'hello' });
+      await client.claimTask('task-1');
+
+      expect(isPlatformFailure(queued) && queued.queued).toBe(true);
+      expect(client.getQueuedCalls().map(e => e.path)).toEqual(['/api/messages/send', '/api/tasks/claim']);
+      expect((await client.flushOutbox()).remaining).toBe(2);
+      const keys = client.getQueuedCalls().map(e => e.idempotencyKey);
+
+      online = true;
+      const result = await client.flushOutbox();
+      expect(result).toEqual({ replayed: 2, rejected: [], remaining: 0 });
+      expect(sent.map(c => c.path)).toEqual(['/api/messages/send', '/api/tasks/claim']);
+      expect(sent.map(c => c.key)).toEqual(keys);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('should retry idempotent calls honoring Retry-After and open the circuit on repeated failures', async () => {
+    const originalFetch = global.fetch;
+    let calls = 0;
+    global.fetch = jest.fn(async () => {
+      calls++;
+      if (calls === 1) return new Response('', { status: 503, headers: { 'Retry-After': '0' } });
+      if (calls === 2) return new Response(JSON.stringify({ status: 'ok' }), { status: 200 });
+      throw new Error('ECONNRESET');
+    }) as typeof fetch;
+
+    try {
+      const client = new GSNPlatformClient('http://gsn.test', false, {
+        requestPolicy: { maxRetries: 1, backoffBaseMs: 1, circuitBreakerThreshold: 2 },
+      });
+
+      expect(await client.health()).toEqual({ status: 'ok' });
+      expect(calls).toBe(2);
+
+      await client.heartbeat({});
+      await client.heartbeat({});
+      expect(client.getCircuitState()).toBe('open');
+
+      const shortCircuited = await client.health();
+      expect(isPlatformFailure(shortCircuited)).toBe(true);
+      expect(calls).toBe(4);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('should count plain 5xx as breaker failures and settle half-open trials on exhausted 429s', async () => {
+    const originalFetch = global.fetch;
+    let status = 500;
+    global.fetch = jest.fn(async () => new Response('', { status, headers: { 'Retry-After': '0' } })) as typeof fetch;
+
+    try {
+      const client = new GSNPlatformClient('http://gsn.test', false, {
+        requestPolicy: { maxRetries: 1, backoffBaseMs: 1, circuitBreakerThreshold: 2, circuitBreakerResetMs: 0 },
+      });
+
+      await client.health();
+      await client.health();
+      expect(client.getCircuitState()).toBe('open');
+
+      status = 429;
+      await client.health();
+      expect(client.getCircuitState()).toBe('closed');
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('should turn malformed platform payloads into validation failures', async () => {
+    const originalFetch = global.fetch;
+    const payloads: unknown[] = [
+      { success: true, tasks: [{ id: 't1', title: 'Fix bug', reward: '50', status: 'open' }] },
+      {
+        success: true,
+        pushed: { snippets: 0, tasks: 0, insights: 0 },
+        pulled: { snippets: [{ id: 's1', agentId: 'a', content: 'x', timestamp: 1, tags: [], clock: { a: '2' } }] },
+      },
+    ];
+    global.fetch = jest.fn(async () => new Response(JSON.stringify(payloads.shift()), { status: 200 })) as typeof fetch;
+
+    try {
+      const client = new GSNPlatformClient('http://gsn.test');
+      const result = await client.getTasks();
+
+      expect(isPlatformFailure(result)).toBe(true);
+      if (isPlatformFailure(result)) {
+        expect(result.cause).toBeInstanceOf(GSNValidationError);
+        expect((result.cause as GSNValidationError).issues).toEqual(['tasks[0].reward: expected number, got string']);
+      }
+
+      const synced = await client.sync({ snippets: [], tasks: [], insights: [] });
+      expect(isPlatformFailure(synced) && (synced.cause as GSNValidationError).issues)
+        .toEqual(['pulled.snippets[0].clock.a: expected number, got string']);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('should classify tier restrictions and throw them in throwOnError mode', async () => {
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn(async () => new Response(
+      JSON.stringify({ success: false, error: 'Moltbook cross-posting is elevated+ only', tier: 'member' }),
+      { status: 403, statusText: 'Forbidden' },
+    )) as typeof fetch;
+
+    try {
+      const client = new GSNPlatformClient('http://gsn.test');
+      const result = await client.moltbookCrosspost('Title', 'Body');
+      expect(isPlatformFailure(result) && result.kind).toBe('tier-insufficient');
+      expect(isPlatformFailure(result) && result.error).toBe('HTTP 403: Moltbook cross-posting is elevated+ only');
+
+      const throwing = new GSNPlatformClient('http://gsn.test', false, { throwOnError: true });
+      await expect(throwing.moltbookCrosspost('Title', 'Body')).rejects.toBeInstanceOf(GSNTierError);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('should enforce task status transitions and record history', () => {
+    const events: string[] = [];
+    coordinator.onCoordinationEvent(event => events.push(event.type));
+
+    const task = coordinator.createTask('Lifecycle', 'Walk the state machine');
+    coordinator.assignTask(task.id, 'agent-2');
+    coordinator.updateTaskStatus(task.id, 'in-progress');
+    coordinator.updateTaskStatus(task.id, 'failed', undefined, 'worker crashed');
+
+    expect(events).toEqual(['task-created', 'task-assigned', 'task-updated', 'task-failed']);
+    expect(coordinator.getTaskStatusHistory(task.id).map(h => [h.from, h.to])).toEqual([
+      [null, 'pending'], ['pending', 'assigned'], ['assigned', 'in-progress'], ['in-progress', 'failed'],
+    ]);
+    expect(coordinator.getTaskStatusHistory(task.id)[3].reason).toBe('worker crashed');
+
+    coordinator.updateTaskStatus(task.id, 'pending');
+    coordinator.updateTaskStatus(task.id, 'in-progress');
+    coordinator.updateTaskStatus(task.id, 'completed', 'done');
+    expect(() => coordinator.updateTaskStatus(task.id, 'pending')).toThrow(GSNTaskTransitionError);
+    expect(coordinator.getTask(task.id)?.status).toBe('completed');
+  });
+
+  test('should block dependents, cascade cancellations, survive retries and reject cycles', () => {
+    const research = coordinator.createTask('Research', 'Gather sources', { metadata: { estimatedDuration: 3 } });
+    const draft = coordinator.createTask('Draft', 'Write draft', { dependsOn: [research.id] });
+    const review = coordinator.createTask('Review', 'Review draft', { dependsOn: [draft.id] });
+    const notes = coordinator.createTask('Notes', 'Side notes', { dependsOn: [research.id] });
+    const workflow = new GSNWorkflow(coordinator, [research.id, draft.id, review.id, notes.id]);
+
+    expect(draft.status).toBe('blocked');
+    expect(workflow.getReadyTasks().map(t => t.id)).toEqual([research.id]);
+    expect(workflow.getCriticalPath().map(t => t.name)).toEqual(['Research', 'Draft', 'Review']);
+    expect(() => coordinator.addTaskDependency(research.id, review.id)).toThrow(GSNDependencyError);
+
+    const unblocked: string[] = [];
+    coordinator.onCoordinationEvent(event => {
+      if (event.type === 'task-unblocked') unblocked.push(event.task.name);
+    });
+    coordinator.updateTaskStatus(research.id, 'in-progress');
+    coordinator.updateTaskStatus(research.id, 'completed');
+    expect(unblocked).toEqual(['Draft', 'Notes']);
+    expect(coordinator.getTask(review.id)?.status).toBe('blocked');
+
+    coordinator.updateTaskStatus(draft.id, 'failed', undefined, 'writer crashed');
+    expect(coordinator.getTask(review.id)?.status).toBe('blocked');
+    expect(workflow.getProgress()).toMatchObject({ total: 4, completed: 1, failed: 1, cancelled: 0, ready: 1 });
+    expect(workflow.isComplete()).toBe(false);
+
+    // Retrying the failed prerequisite still unblocks its dependents
+    coordinator.updateTaskStatus(draft.id, 'pending', undefined, 'retry');
+    coordinator.updateTaskStatus(draft.id, 'in-progress');
+    coordinator.updateTaskStatus(draft.id, 'completed');
+    expect(coordinator.getTask(review.id)?.status).toBe('pending');
+    expect(unblocked).toEqual(['Draft', 'Notes', 'Review']);
+
+    const followUp = coordinator.createTask('Follow-up', 'After notes', { dependsOn: [notes.id] });
+    coordinator.updateTaskStatus(notes.id, 'cancelled');
+    expect(coordinator.getTask(followUp.id)?.status).toBe('cancelled');
+    expect(coordinator.getTaskStatusHistory(followUp.id).pop()?.reason).toBe(`dependency ${notes.id} cancelled`);
+  });
+
+  test('should route tasks by capability, load and strategy', () => {
+    const router = new GSNTaskRouter(coordinator);
+    router.registerAgent('coder-a', ['coding', 'research'], 10);
+    router.registerAgent('coder-b', ['Coding'], 50);
+    router.registerAgent('writer', ['writing'], 90);
+
+    const first = coordinator.createTask('Fix bug', 'Patch it', { requiredCapabilities: ['coding'] });
+    const decision = router.route(first.id);
+    expect(decision).toMatchObject({ agentId: 'coder-b', strategy: 'least-loaded', eligible: ['coder-a', 'coder-b'] });
+    expect(coordinator.getTaskAssignments(first.id)[0].routing?.agentId).toBe('coder-b');
+
+    const second = coordinator.createTask('Add feature', 'Build it', { requiredCapabilities: ['coding'] });
+    expect(router.route(second.id)?.agentId).toBe('coder-a');
+    expect(router.getLoad('coder-a')).toBe(1);
+
+    router.setStrategy('reputation');
+    const third = coordinator.createTask('Refactor', 'Clean up', { requiredCapabilities: ['coding'] });
+    expect(router.selectAgent(third)?.agentId).toBe('coder-b');
+
+    const unroutable = coordinator.createTask('Design', 'Draw it', { requiredCapabilities: ['design'] });
+    expect(router.route(unroutable.id)).toBeNull();
+    expect(coordinator.getTask(unroutable.id)?.status).toBe('pending');
+
+    const done = coordinator.createTask('Ship', 'Release it', { requiredCapabilities: ['coding'] });
+    coordinator.updateTaskStatus(done.id, 'cancelled');
+    expect(router.route(done.id)).toBeNull();
+  });
+
+  test('should expire leases, reassign or fail tasks, and report missed deadlines', () => {
+    const leased = new GSNCoordinator(agentIdentity, {
+      leaseDurationMs: 1000,
+      reassign: (task, expiredHolderId) => (expiredHolderId === 'agent-2' ? 'agent-3' : null),
+    });
+    const events: string[] = [];
+    leased.onCoordinationEvent(event => events.push(event.type));
+
+    const task = leased.createTask('Leased', 'Needs a heartbeat', { deadline: Date.now() + 5000 });
+    leased.assignTask(task.id, 'agent-2');
+    expect(leased.renewLease(task.id, 'agent-9')).toBe(false);
+    expect(leased.renewLease(task.id, 'agent-2', 2000)).toBe(true);
+
+    const later = Date.now() + 3000;
+    expect(leased.expireLeases(later).map(t => t.id)).toEqual([task.id]);
+    expect(leased.getTask(task.id)).toMatchObject({ status: 'assigned', agentId: 'agent-3' });
+    expect(leased.getTask(task.id)?.lease?.holderId).toBe('agent-3');
+
+    leased.updateTaskStatus(task.id, 'in-progress');
+    leased.expireLeases(Date.now() + 60000);
+    expect(leased.getTask(task.id)?.status).toBe('failed');
+    expect(leased.getTask(task.id)?.lease).toBeUndefined();
+    expect(events.filter(e => e === 'lease-expired')).toHaveLength(2);
+
+    leased.updateTaskStatus(task.id, 'pending');
+    expect(leased.checkDeadlines(Date.now() + 10000)).toHaveLength(1);
+    expect(leased.checkDeadlines(Date.now() + 20000)).toHaveLength(0);
+    expect(events).toContain('deadline-missed');
+    leased.dispose();
+  });
+
+  test('should deliver queued work by priority, retry nacks and dead-letter', async () => {
+    const queue = new GSNWorkQueue(coordinator, { maxAttempts: 2, concurrencyPerWorker: 1 });
+    const low = coordinator.createTask('Low', 'Later', { priority: 'low' });
+    const high = coordinator.createTask('High', 'Now', { priority: 'high', reward: 10 });
+    const urgent = coordinator.createTask('Urgent', 'Now', { priority: 'high', reward: 20 });
+    const bounty = coordinator.createTask('Bounty', 'On the board', { status: 'open', priority: 'critical', remoteId: 'remote-1' });
+    expect(queue.peek()?.id).toBe(urgent.id); // no bridge, so bounty tasks are not delivered
+
+    expect((await queue.next('worker-1'))?.id).toBe(urgent.id);
+    expect(await queue.next('worker-1')).toBeNull();
+    expect((await queue.next('worker-2'))?.id).toBe(high.id);
+    expect(await queue.ack(urgent.id, 'done')).toBe(true);
+    expect(coordinator.getTask(urgent.id)?.status).toBe('completed');
+    await queue.ack(high.id);
+
+    expect((await queue.next('worker-1'))?.id).toBe(low.id);
+    queue.nack(low.id, 'flaky');
+    expect(coordinator.getTask(low.id)?.status).toBe('pending');
+    expect((await queue.next('worker-1'))?.id).toBe(low.id);
+    queue.nack(low.id, 'flaky again');
+    expect(coordinator.getTask(low.id)?.status).toBe('failed');
+    expect(queue.getDeadLetters()).toMatchObject([{ attempts: 2, reason: 'flaky again' }]);
+
+    expect(queue.retryDeadLetter(low.id)).toBe(true);
+    expect(queue.peek()?.id).toBe(low.id);
+    expect(coordinator.getTask(bounty.id)?.status).toBe('open');
+  });
+
+  test('should deliver bus events by wildcard and isolate failing listeners', async () => {
+    const errors: string[] = [];
+    const bus = new GSNEventBus<GSNEventMap>({ onListenerError: (_, topic) => errors.push(topic) });
+    const seen: string[] = [];
+
+    bus.on('*', event => { seen.push(`all:${event.topic}`); });
+    bus.on('connector:*', async event => {
+      await Promise.resolve();
+      seen.push(`connector:${event.topic}`);
+    });
+    bus.once('connector:offline', event => { seen.push(`once:${event.payload.reason}`); });
+    bus.on('connector:offline', () => { throw new Error('boom'); });
+    bus.on('connector:online', async () => { throw new Error('async boom'); });
+
+    await bus.emit('connector:offline', { reason: 'unreachable' });
+    await bus.emit('connector:offline', { reason: 'still down' });
+    await bus.emit('connector:online', { since: 1 });
+
+    expect(seen).toEqual([
+      'all:connector:offline', 'once:unreachable', 'connector:connector:offline',
+      'all:connector:offline', 'connector:connector:offline',
+      'all:connector:online', 'connector:connector:online',
+    ]);
+    expect(errors).toEqual(['connector:offline', 'connector:offline', 'connector:online']);
+  });
+
+  test('should re-publish module events on the connector bus', () => {
+    const gsn = new GSNConnector({ platformUrl: 'http://localhost:0', agentName: 'BusAgent', autoRegister: false });
+    const topics: string[] = [];
+    gsn.events.on('memory:*', event => { topics.push(event.topic); });
+    gsn.events.on('coordination:task-created', event => { topics.push(`${event.topic}:${event.payload.task.name}`); });
+    gsn.events.on('insight:*', event => { topics.push(event.topic); });
+
+    const snippet = gsn.memory.addSnippet('Bus test', ['bus']);
+    gsn.memory.deleteSnippet(snippet.id);
+    gsn.coordinator.createTask('Bus task', 'Check the bus');
+    gsn.insights.generateInsight('Bus insight', 'Events flow through');
+
+    expect(topics).toEqual(['memory:add', 'memory:delete', 'coordination:task-created:Bus task', 'insight:insight-generated']);
+    gsn.dispose();
+  });
+
+  test('should route structured module logs through the configured logger', () => {
+    const lines: Array<Record<string, unknown>> = [];
+    const logger = new JsonLogger({ level: 'debug', write: line => lines.push(JSON.parse(line)) });
+    const gsn = new GSNConnector({ platformUrl: 'http://localhost:0', agentName: 'LogAgent', agentId: 'log-agent', logger });
+
+    const task = gsn.coordinator.createTask('Logged', 'Shows up in logs');
+    expect(lines).toContainEqual(expect.objectContaining({
+      level: 'debug', module: 'coordinator', agentId: 'log-agent', taskId: task.id,
+    }));
+
+    const quiet = new JsonLogger({ level: 'warn', write: line => lines.push(JSON.parse(line)) });
+    const before = lines.length;
+    quiet.child({ module: 'test' }).info('dropped');
+    quiet.child({ module: 'test' }).error('kept', { error: new Error('boom') });
+    expect(lines.slice(before)).toEqual([
+      expect.objectContaining({ level: 'error', msg: 'kept', module: 'test', error: { name: 'Error', message: 'boom' } }),
+    ]);
+    gsn.dispose();
+  });
+
+  test('should export a snapshot and restore it by replacing or merging', () => {
+    const config = { platformUrl: 'http://localhost:0', autoRegister: false };
+    const source = new GSNConnector({ ...config, agentName: 'Mover', agentId: 'mover', capabilities: ['coding'] });
+    const snippet = source.memory.addSnippet('Carry me over', ['move']);
+    const task = source.coordinator.createTask('Moving task', 'Assigned before the move');
+    source.coordinator.assignTask(task.id, 'helper');
+    const insight = source.insights.generateInsight('Portable', 'Insights survive moves', { tags: ['move'] });
+    const token = source.auth.generateToken('write');
+    const revoked = source.auth.generateToken('read');
+    source.auth.revokeToken(revoked.token);
+
+    const json = JSON.stringify(source.exportSnapshot());
+    const restored = GSNConnector.fromSnapshot(json, config);
+
+    expect(restored.getIdentity()).toMatchObject({ id: 'mover', name: 'Mover', capabilities: ['coding'] });
+    expect(restored.memory.getSnippet(snippet.id)?.content).toBe('Carry me over');
+    expect(restored.memory.getPendingChanges().map(c => c.snippet.id)).toEqual([snippet.id]);
+    expect(restored.coordinator.getTask(task.id)?.status).toBe('assigned');
+    expect(restored.coordinator.getTaskAssignments(task.id).map(a => a.toAgentId)).toEqual(['helper']);
+    expect(restored.coordinator.getTaskStatusHistory(task.id).map(c => c.to)).toEqual(['pending', 'assigned']);
+    expect(restored.insights.getInsightsByTag('move').map(i => i.id)).toEqual([insight.id]);
+    expect(restored.auth.validateToken(token.token)).not.toBeNull();
+    expect(restored.auth.validateToken(revoked.token)).toBeNull();
+
+    // Merge keeps the newer copy of each record and keeps local-only records
+    const local = restored.memory.addSnippet('Only on the new host');
+    restored.memory.updateSnippet(snippet.id, { content: 'Edited after the move' });
+    restored.importSnapshot(json);
+    expect(restored.memory.getSnippet(snippet.id)?.content).toBe('Edited after the move');
+    expect(restored.memory.getSnippet(local.id)).toBeDefined();
+
+    restored.importSnapshot(json, { mode: 'replace' });
+    expect(restored.memory.getSnippet(snippet.id)?.content).toBe('Carry me over');
+    expect(restored.memory.getSnippet(local.id)).toBeUndefined();
+
+    const other = new GSNConnector({ ...config, agentName: 'Other', agentId: 'other' });
+    expect(() => other.importSnapshot(json)).toThrow(/belongs to mover/);
+    expect(() => other.importSnapshot({ ...JSON.parse(json), version: 99 })).toThrow(GSNValidationError);
+    [source, restored, other].forEach(c => c.dispose());
+  });
+
+  test('should merge imported state by vector clock, reindex tags and apply retention', () => {
+    const insight = insights.generateInsight('Pool size', 'Use 10 connections', { tags: ['old'] });
+    const clock = { ...insight.clock, 'other-agent': 1 };
+    const newer = { ...insight, tags: ['new'], clock, lastUpdated: insight.lastUpdated - 1000 };
+    insights.importState({ insights: [newer], tagIndex: {} }, 'merge');
+    expect(insights.getInsightsByTag('old')).toHaveLength(0);
+    expect(insights.getInsightsByTag('new').map(i => i.id)).toEqual([insight.id]);
+
+    insights.importState({ insights: [{ ...insight, lastUpdated: Date.now() + 1000 }], tagIndex: {} }, 'merge');
+    expect(insights.getInsight(insight.id)?.tags).toEqual(['new']);
+
+    const source = new GSNMemory({ agentId: 'other-agent' });
+    const snippets = [source.addSnippet('First'), source.addSnippet('Second')];
+    const bounded = new GSNMemory({ agentId: agentIdentity.id, retention: { maxSnippets: 1 } });
+    bounded.importState({ snippets, pendingChanges: [] }, 'merge');
+    expect(bounded.getAllSnippets()).toHaveLength(1);
+    [source, bounded].forEach(m => m.dispose());
+  });
+
+  test('should rank snippets and insights with stemming, prefixes, tags and embeddings', async () => {
+    const pg = memory.addSnippet('Optimizing PostgreSQL queries with better indexes', ['db']);
+    const redis = memory.addSnippet('Redis caching in front of slow queries', ['db', 'cache']);
+    memory.addSnippet('Frontend bundle size tips', ['web']);
+
+    expect(memory.searchSnippets('postgres tuning')).toEqual([]);
+    const [top] = await memory.searchRanked('postgres query optimization');
+    expect(top.item.id).toBe(pg.id);
+    expect(top.explanation.terms.map(t => `${t.term}->${t.matched}`)).toEqual(
+      expect.arrayContaining(['postgre->postgresql', 'query->query', 'optimize->optimize'])
+    );
+
+    expect((await memory.searchRanked('queries', { tags: ['cache'] })).map(r => r.item.id)).toEqual([redis.id]);
+    expect(await memory.searchRanked('queries', { topK: 1 })).toHaveLength(1);
+
+    memory.updateSnippet(redis.id, { content: 'Redis pub/sub fan-out' });
+    memory.deleteSnippet(pg.id);
+    expect(await memory.searchRanked('queries')).toEqual([]);
+
+    insights.generateInsight('Index tuning', 'Composite indexes speed up joins', { tags: ['db'] });
+    expect((await insights.searchRanked('indexing')).map(r => r.item.title)).toEqual(['Index tuning']);
+
+    // A toy embedding that knows "tuning" and "optimizing" mean the same thing
+    const concepts = [['tun', 'optimiz', 'faster'], ['postgre', 'postgresql', 'sql'], ['css', 'frontend']];
+    const embed = (text: string) => concepts.map(words => words.some(w => text.toLowerCase().includes(w)) ? 1 : 0);
+    const index = new GSNSearchIndex({ embed, embeddingWeight: 0.7 });
+    index.upsert({ id: 'faster', text: 'Making SQL faster' });
+    index.upsert({ id: 'css', text: 'Frontend CSS tuning' });
+    const hits = await index.search('postgres tuning');
+    expect(hits.map(h => h.id)).toEqual(['faster', 'css']);
+    expect(hits[0].explanation.cosine).toBeCloseTo(1);
+  });
+
+  test('should filter snippets, insights and tasks with boolean tag queries', () => {
+    const ts = memory.addSnippet('TypeScript strict mode', ['lang:ts', 'config']);
+    const py = memory.addSnippet('Python typing', ['lang:py', 'deprecated']);
+    const ci = memory.addSnippet('CI cache keys', ['config']);
+    const ids = (items: Array<{ id: string }>) => items.map(i => i.id);
+
+    expect(ids(memory.query('lang:* -deprecated'))).toEqual([ts.id]);
+    expect(ids(memory.query('config AND NOT (lang:ts OR deprecated)'))).toEqual([ci.id]);
+    expect(ids(memory.query(`agentId:${agentIdentity.id} timestamp>-1h`))).toEqual([ts.id, py.id, ci.id]);
+    expect(memory.query('timestamp<-1h')).toEqual([]);
+
+    memory.updateSnippet(ci.id, { tags: ['lang:yaml'] });
+    memory.deleteSnippet(py.id);
+    expect(ids(memory.query('lang:*'))).toEqual([ts.id, ci.id]);
+    expect(memory.query('deprecated')).toEqual([]);
+
+    insights.generateInsight('Pool size', 'Use 10 connections', { tags: ['perf:db'], confidence: 0.9 });
+    insights.generateInsight('Maybe cache', 'Unverified', { tags: ['perf:web'], confidence: 0.4 });
+    expect(insights.query('perf:* confidence>=0.8').map(i => i.title)).toEqual(['Pool size']);
+    expect(insights.query('confidence:0.3..0.5').map(i => i.title)).toEqual(['Maybe cache']);
+
+    const api = coordinator.createTask('API', 'Build the API', { tags: ['backend'] });
+    const ui = coordinator.createTask('UI', 'Build the UI', { tags: ['frontend'] });
+    coordinator.assignTask(api.id, 'helper');
+    expect(ids(coordinator.query('status:assigned agentId:helper'))).toEqual([api.id]);
+    expect(ids(coordinator.query('backend OR frontend -status:assigned'))).toEqual([api.id, ui.id]);
+    expect(ids(coordinator.query('(backend OR frontend) -status:assigned'))).toEqual([ui.id]);
+
+    expect(parseQuery('"two words" OR a* b')).toEqual({
+      op: 'or',
+      nodes: [{ op: 'tag', tag: 'two words' }, { op: 'and', nodes: [{ op: 'prefix', prefix: 'a' }, { op: 'tag', tag: 'b' }] }],
+    });
+    expect(() => memory.query('(config')).toThrow(GSNValidationError);
+    expect(() => memory.query('confidence>high')).toThrow(/Invalid confidence value/);
+    expect(() => parseQuery('"bad \\q escape"')).toThrow(GSNValidationError);
+  });
+
+  test('should expire and evict unpinned snippets within retention caps', () => {
+    const bounded = new GSNMemory({
+      agentId: 'bounded',
+      retention: { defaultTtlMs: 60000, maxSnippets: 3, maxBytes: 40, eviction: 'lru' },
+    });
+    const deleted: string[] = [];
+    bounded.onSyncEvent(event => event.type === 'delete' && deleted.push(event.snippet.id));
+
+    const pinned = bounded.addSnippet('Never forget', ['core'], undefined, { pinned: true });
+    const a = bounded.addSnippet('first');
+    const b = bounded.addSnippet('second', [], undefined, { ttlMs: 1000 });
+    bounded.getSnippet(a.id);
+    const c = bounded.addSnippet('third');
+    expect(deleted).toEqual([b.id]);
+    expect(bounded.getUsage()).toEqual({ snippets: 3, bytes: 'Never forgetfirstthird'.length });
+
+    // Over the byte cap: least recently used goes first
+    bounded.getSnippet(a.id);
+    bounded.updateSnippet(c.id, { content: 'third, now much longer text' });
+    expect(deleted).toEqual([b.id, a.id]);
+
+    expect(bounded.enforceRetention(Date.now() + 120000)).toEqual([c.id]);
+    expect(bounded.getAllSnippets().map(s => s.id)).toEqual([pinned.id]);
+    expect(bounded.buildSyncDelta().deletes.sort()).toEqual([b.id, a.id, c.id].sort());
+
+    const ranked = new GSNMemory({ retention: { maxSnippets: 2, eviction: 'lowest-priority', tagPriorities: { keep: 10, scratch: -1 } } });
+    const keep = ranked.addSnippet('keep me', ['keep']);
+    ranked.addSnippet('scratch work', ['scratch']);
+    const plain = ranked.addSnippet('plain');
+    expect(ranked.getAllSnippets().map(s => s.id)).toEqual([keep.id, plain.id]);
+
+    // Evicting another agent's snippet leaves the vault copy alone
+    ranked.applyRemoteSnippets([{ id: 'foreign', agentId: 'other', content: 'theirs', timestamp: Date.now(), tags: ['scratch'] }]);
+    expect(ranked.getSnippet('foreign')).toBeUndefined();
+    expect(ranked.buildSyncDelta().deletes).not.toContain('foreign');
+    [bounded, ranked].forEach(m => m.dispose());
+  });
+
+  test('should keep bounded revision history with diff and rollback', () => {
+    const versioned = new GSNMemory({ agentId: 'writer', maxRevisions: 3 });
+    const snippet = versioned.addSnippet('v1', ['draft']);
+    versioned.updateSnippet(snippet.id, { content: 'v2' });
+    versioned.updateSnippet(snippet.id, { content: 'v3', tags: ['final'] });
+    versioned.updateSnippet(snippet.id, { content: 'v4' });
+
+    const revisions = versioned.getSnippetRevisions(snippet.id);
+    expect(revisions.map(r => [r.revision, r.record.content])).toEqual([[2, 'v2'], [3, 'v3'], [4, 'v4']]);
+    expect(revisions[0].agentId).toBe('writer');
+    expect(versioned.diffSnippetRevisions(snippet.id, 2, 3)?.changes).toEqual([
+      { field: 'content', from: 'v2', to: 'v3' },
+      { field: 'tags', from: ['draft'], to: ['final'] },
+    ]);
+    expect(versioned.diffSnippetRevisions(snippet.id, 1, 4)).toBeNull();
+
+    const rolledBack = versioned.rollbackSnippet(snippet.id, 2);
+    expect(rolledBack).toMatchObject({ content: 'v2', tags: ['draft'], revision: 5 });
+    expect(versioned.rollbackSnippet(snippet.id, 1)).toBeNull();
+    expect(versioned.buildSyncDelta().upserts[0].revision).toBe(5);
+
+    versioned.deleteSnippet(snippet.id);
+    expect(versioned.getSnippetRevisions(snippet.id)).toEqual([]);
+    expect(versioned.getPendingChanges()[0].snippet.revision).toBe(6);
+
+    const insight = insights.generateInsight('Cache TTL', 'Use 60s', { confidence: 0.6 });
+    insights.updateInsight(insight.id, { content: 'Use 300s', confidence: 0.9 });
+    expect(insights.diffInsightRevisions(insight.id, 1, 2)?.changes.map(c => c.field)).toEqual(['content', 'confidence']);
+    expect(insights.rollbackInsight(insight.id, 1)).toMatchObject({ content: 'Use 60s', confidence: 0.6, revision: 3 });
+    expect(insights.getInsightRevisions(insight.id)).toHaveLength(3);
+    versioned.dispose();
+  });
+
+  test('should merge concurrent edits with vector clocks and surface content conflicts', () => {
+    const alice = new GSNMemory({ agentId: 'alice' });
+    const bob = new GSNMemory({ agentId: 'bob' });
+    const shared = alice.addSnippet('Deploy on Tuesdays', ['ops'], { owner: 'alice' });
+    bob.applyRemoteSnippets([shared]);
+
+    // Concurrent edits to tags and metadata only: both sides converge on the same merge
+    const fromAlice = alice.updateSnippet(shared.id, { tags: ['ops', 'release'] })!;
+    const fromBob = bob.updateSnippet(shared.id, { tags: ['ops', 'infra'], metadata: { owner: 'alice', reviewed: true } })!;
+    expect(alice.applyRemoteSnippets([fromBob])).toBe(1);
+    expect(bob.applyRemoteSnippets([fromAlice])).toBe(1);
+    for (const side of [alice, bob]) {
+      expect(side.getSnippet(shared.id)).toMatchObject({
+        tags: ['infra', 'ops', 'release'],
+        metadata: { owner: 'alice', reviewed: true },
+        clock: { alice: 2, bob: 1 },
+      });
+    }
+
+    // A newer version replaces the local copy; an older one is ignored
+    const merged = alice.getSnippet(shared.id)!;
+    const newer = alice.updateSnippet(shared.id, { content: 'Deploy on Thursdays' })!;
+    expect(bob.applyRemoteSnippets([newer])).toBe(1);
+    expect(bob.applyRemoteSnippets([merged])).toBe(0);
+    expect(bob.getSnippet(shared.id)?.content).toBe('Deploy on Thursdays');
+
+    // Different content on both sides is a conflict; the local copy stays until resolved
+    const conflicts: string[][] = [];
+    alice.onConflict(conflict => conflicts.push(conflict.fields));
+    alice.updateSnippet(shared.id, { content: 'Deploy on Fridays', tags: ['ops', 'risky'] });
+    const bobEdit = bob.updateSnippet(shared.id, { content: 'Never deploy on Fridays' })!;
+    expect(alice.applyRemoteSnippets([bobEdit])).toBe(0);
+    expect(alice.applyRemoteSnippets([bobEdit])).toBe(0);
+    expect(conflicts).toEqual([['content']]);
+    expect(alice.getSnippet(shared.id)?.content).toBe('Deploy on Fridays');
+
+    const resolved = alice.resolveSnippetConflict(shared.id, 'remote')!;
+    expect(resolved.content).toBe('Never deploy on Fridays');
+    expect(resolved.tags).toEqual(['infra', 'ops', 'release', 'risky']);
+    expect(alice.getConflicts()).toEqual([]);
+    expect(bob.applyRemoteSnippets([resolved])).toBe(1);
+    expect(bob.getSnippet(shared.id)?.content).toBe('Never deploy on Fridays');
+
+    // Insights: confidence is last-writer-wins, a title clash is resolved with custom content
+    const other = new GSNInsights({ ...agentIdentity, id: 'other-agent' });
+    const insight = insights.generateInsight('Pool size', 'Use 10', { confidence: 0.5 });
+    other.applyRemoteInsights([insight]);
+    insights.updateInsight(insight.id, { tags: ['db'] });
+    const raised = other.updateInsight(insight.id, { confidence: 0.9 })!;
+    expect(insights.applyRemoteInsights([raised])).toBe(1);
+    expect(insights.getInsight(insight.id)).toMatchObject({ tags: ['db'], confidence: 0.9 });
+    expect(insights.getInsightsByTag('db').map(i => i.id)).toEqual([insight.id]);
+
+    insights.updateInsight(insight.id, { title: 'Pool size (prod)' });
+    const retitled = other.updateInsight(insight.id, { title: 'Connection pool' })!;
+    insights.applyRemoteInsights([retitled]);
+    expect(insights.getConflicts().map(c => c.fields)).toEqual([['title']]);
+    expect(insights.resolveInsightConflict(insight.id, { title: 'Connection pool (prod)' })?.title).toBe('Connection pool (prod)');
+    [alice, bob, other].forEach(m => m.dispose());
+  });
+
+  test('should keep concurrent edits to different metadata keys and fields on both sides', () => {
+    const alice = new GSNMemory({ agentId: 'alice' });
+    const bob = new GSNMemory({ agentId: 'bob' });
+    const shared = alice.addSnippet('Rate limits', ['api'], { k1: 1, k2: 1 });
+    bob.applyRemoteSnippets([shared]);
+
+    const fromAlice = alice.updateSnippet(shared.id, { metadata: { k1: 2, k2: 1 } })!;
+    const fromBob = bob.updateSnippet(shared.id, { metadata: { k1: 1, k2: 2 } })!;
+    expect(alice.applyRemoteSnippets([fromBob])).toBe(1);
+    expect(bob.applyRemoteSnippets([fromAlice])).toBe(1);
+    expect(alice.getSnippet(shared.id)?.metadata).toEqual({ k1: 2, k2: 2 });
+    expect(bob.getSnippet(shared.id)?.metadata).toEqual({ k1: 2, k2: 2 });
+
+    // Only one side changed content, so it is taken rather than reported as a conflict
+    const reworded = alice.updateSnippet(shared.id, { content: 'Rate limits per key' })!;
+    const retagged = bob.updateSnippet(shared.id, { tags: ['api', 'limits'] })!;
+    expect(bob.applyRemoteSnippets([reworded])).toBe(1);
+    expect(alice.applyRemoteSnippets([retagged])).toBe(1);
+    for (const side of [alice, bob]) {
+      expect(side.getSnippet(shared.id)).toMatchObject({ content: 'Rate limits per key', tags: ['api', 'limits'] });
+    }
+
+    // A confidence edit survives a concurrent tags-only edit made later
+    const other = new GSNInsights({ ...agentIdentity, id: 'other-agent' });
+    const insight = insights.generateInsight('Timeouts', 'Use 5s', { confidence: 0.5 });
+    other.applyRemoteInsights([insight]);
+    const raised = other.updateInsight(insight.id, { confidence: 0.9 })!;
+    const tagged = insights.updateInsight(insight.id, { tags: ['net'] })!;
+    expect(insights.applyRemoteInsights([raised])).toBe(1);
+    expect(other.applyRemoteInsights([tagged])).toBe(1);
+    for (const side of [insights, other]) {
+      expect(side.getInsight(insight.id)).toMatchObject({ confidence: 0.9, tags: ['net'] });
+    }
+    [alice, bob, other].forEach(m => m.dispose());
+  });
 });
@@ -0,0 +1,382 @@
+// End-to-end tests for GSNConnector against the in-process mock platform
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConnectorConfig,
+  ConnectorEvent,
+  GSNConnector,
+  GSNMockPlatform,
+  GSNNetworkError,
+  GSNSealedError,
+  GSNWorkQueue,
+  fileUrlResolver,
+  isPlatformFailure,
+} from '../src';
+
+describe('GSN Mock Platform', () => {
+  let mock: GSNMockPlatform;
+  let url: string;
+
+  const connectors: GSNConnector[] = [];
+  const connect = async (agentName: string, agentId?: string, config: Partial<ConnectorConfig> = {}) => {
+    const connector = new GSNConnector({
+      platformUrl: url,
+      agentName,
+      agentId,
+      heartbeatEnabled: false,
+      autoSync: false,
+      ...config,
+    });
+    connectors.push(connector);
+    await connector.init();
+    return connector;
+  };
+
+  beforeEach(async () => {
+    mock = new GSNMockPlatform();
+    url = await mock.start();
+  });
+
+  afterEach(async () => {
+    connectors.splice(0).forEach(c => c.dispose());
+    await mock.stop();
+  });
+
+  test('should register, heartbeat and report health', async () => {
+    const gsn = await connect('MockAgent', 'mock-agent-1');
+
+    expect(gsn.getApiKey()).toMatch(/^gsn_/);
+    expect(gsn.getTier()).toBe('member');
+    expect(mock.getAgent('mock-agent-1')?.name).toBe('MockAgent');
+
+    const heartbeat = await gsn.heartbeat();
+    expect(heartbeat.success).toBe(true);
+    expect(await gsn.platform.health()).toMatchObject({ status: 'ok' });
+  });
+
+  test('should exchange snippet deltas between agents through sync', async () => {
+    const alice = await connect('Alice', 'alice');
+    const bob = await connect('Bob', 'bob');
+
+    const shared = alice.memory.addSnippet('Rate limit is 100 req/min', ['api']);
+    await alice.sync();
+    expect(mock.getSnippets().map(s => s.id)).toEqual([shared.id]);
+
+    await bob.sync();
+    expect(bob.memory.getSnippet(shared.id)?.content).toBe('Rate limit is 100 req/min');
+
+    alice.memory.deleteSnippet(shared.id);
+    await alice.sync();
+    expect(mock.getSnippets()).toHaveLength(0);
+
+    const pushes = mock.getRequests().filter(r => r.path === '/api/connector/sync' && r.agentId === 'alice');
+    expect(pushes.map(r => r.body.snippets.length)).toEqual([1, 0]);
+  });
+
+  test('should keep snippet changes the vault refuses as stale queued and report them', async () => {
+    const alice = await connect('Alice', 'alice');
+    const bob = await connect('Bob', 'bob');
+    const stale: string[][] = [];
+    alice.events.on('memory:stale', ({ payload }) => { stale.push(payload.snippetIds); });
+
+    const shared = alice.memory.addSnippet('Rate limit is 100 req/min', ['api']);
+    await alice.sync();
+    await bob.sync();
+
+    bob.memory.updateSnippet(shared.id, { content: 'Rate limit is 50 req/min' });
+    alice.memory.updateSnippet(shared.id, { content: 'Rate limit is 200 req/min' });
+    await bob.sync();
+    await alice.sync();
+
+    expect(stale).toEqual([[shared.id]]);
+    expect(alice.memory.getPendingChanges().map(c => c.snippet.id)).toEqual([shared.id]);
+    expect(alice.memory.getConflicts().map(c => c.id)).toEqual([shared.id]);
+
+    alice.memory.resolveSnippetConflict(shared.id, { content: 'Rate limit is 50 req/min' });
+    await alice.sync();
+    expect(mock.getSnippets().find(s => s.id === shared.id)?.content).toBe('Rate limit is 50 req/min');
+    expect(alice.memory.getPendingChanges()).toHaveLength(0);
+  });
+
+  test('should enforce tier rules on bounty and Moltbook routes', async () => {
+    const gsn = await connect('Member', 'member-1');
+
+    const created = await gsn.createTask({ title: 'Build API', reward: 50 });
+    expect(isPlatformFailure(created) && created.kind).toBe('tier-insufficient');
+
+    mock.setTier('member-1', 'commander');
+    const task = await gsn.createTask({ title: 'Build API', reward: 50, category: 'coding' });
+    expect(task.success).toBe(true);
+
+    const worker = await connect('Worker', 'worker-1');
+    const open = await worker.getTasks({ status: 'open' });
+    const taskId = !isPlatformFailure(open) ? open.tasks[0].id : '';
+    expect((await worker.claimTask(taskId)).success).toBe(true);
+    expect((await worker.submitTask(taskId, 'done')).success).toBe(true);
+    expect(mock.getTask(taskId)?.status).toBe('submitted');
+
+    const crosspost = await worker.moltbookCrosspost('Title', 'Body');
+    expect(isPlatformFailure(crosspost) && crosspost.kind).toBe('tier-insufficient');
+  });
+
+  test('should mirror bounty tasks locally and push claims and submissions back', async () => {
+    const alice = await connect('Alice', 'alice');
+    const bob = await connect('Bob', 'bob');
+    const bounty = mock.addTask({ title: 'Write docs', reward: 25, priority: 'high' });
+    const contested = mock.addTask({ title: 'Fix tests', reward: 10 });
+
+    await alice.sync();
+    const local = alice.coordinator.getTaskByRemoteId(bounty.id)!;
+    expect(local).toMatchObject({ status: 'open', reward: 25, priority: 'high' });
+
+    const claim = await alice.taskBridge.claimTask(local.id);
+    expect(isPlatformFailure(claim)).toBe(false);
+    expect(mock.getTask(bounty.id)?.claimedBy).toBe('alice');
+    expect(alice.coordinator.getTask(local.id)).toMatchObject({ status: 'claimed', agentId: 'alice' });
+
+    await alice.taskBridge.submitTask(local.id, 'Docs written');
+    expect(mock.getTask(bounty.id)?.status).toBe('submitted');
+    expect(alice.coordinator.getTask(local.id)?.status).toBe('completed');
+
+    const events: string[] = [];
+    alice.coordinator.onCoordinationEvent(e => events.push(`${e.type}:${e.task.status}`));
+    await bob.platform.claimTask(contested.id);
+    expect(await alice.taskBridge.refresh()).toBe(true);
+    expect(alice.coordinator.getTaskByRemoteId(contested.id)).toMatchObject({ status: 'claimed', agentId: 'bob' });
+    expect(events).toEqual(['task-updated:claimed']);
+
+    const review = mock.addTask({ title: 'Review PR', reward: 5 });
+    await alice.sync();
+    await bob.platform.claimTask(review.id);
+    await alice.sync();
+    expect(alice.coordinator.getTaskByRemoteId(review.id)).toMatchObject({ status: 'claimed', agentId: 'bob' });
+  });
+
+  test('should claim bounty tasks from the work queue and submit them on ack', async () => {
+    const gsn = await connect('Worker', 'worker');
+    const bounty = mock.addTask({ title: 'Write docs', reward: 25, priority: 'high' });
+
+    await gsn.heartbeat();
+    const task = (await gsn.queue.next('worker-1'))!;
+    expect(task).toMatchObject({ remoteId: bounty.id, status: 'claimed' });
+    expect(mock.getTask(bounty.id)?.claimedBy).toBe('worker');
+
+    expect(gsn.queue.nack(task.id, 'flaky')).toBe(true);
+    expect(gsn.coordinator.getTask(task.id)?.status).toBe('claimed');
+    expect((await gsn.queue.next('worker-2'))?.id).toBe(task.id);
+
+    expect(await gsn.queue.ack(task.id, 'Docs written')).toBe(true);
+    expect(mock.getTask(bounty.id)?.status).toBe('submitted');
+    expect(gsn.coordinator.getTask(task.id)?.status).toBe('completed');
+  });
+
+  test('should not claim a bounty twice when workers dequeue concurrently', async () => {
+    const gsn = await connect('Worker', 'worker');
+    mock.addTask({ title: 'Write docs', reward: 25 });
+    mock.addTask({ title: 'Fix tests', reward: 10 });
+    await gsn.heartbeat();
+    const claim = jest.spyOn(gsn.taskBridge, 'claimTask');
+
+    const [first, second] = await Promise.all([gsn.queue.next('worker-1'), gsn.queue.next('worker-1')]);
+    expect([first, second].filter(Boolean)).toHaveLength(1);
+    expect(claim).toHaveBeenCalledTimes(1);
+    expect(gsn.queue.getInFlight('worker-1')).toHaveLength(1);
+
+    const [third, fourth] = await Promise.all([gsn.queue.next('worker-2'), gsn.queue.next('worker-3')]);
+    expect([third, fourth].filter(Boolean)).toHaveLength(1);
+    expect(claim).toHaveBeenCalledTimes(2);
+    expect(gsn.queue.getInFlight().map(t => t.id).sort()).toEqual([first ?? second, third ?? fourth].map(t => t!.id).sort());
+  });
+
+  test('should redeliver a retried dead-lettered bounty under its existing claim', async () => {
+    const gsn = await connect('Worker', 'worker');
+    const queue = new GSNWorkQueue(gsn.coordinator, { maxAttempts: 1 }, gsn.taskBridge);
+    const bounty = mock.addTask({ title: 'Write docs', reward: 25 });
+
+    await gsn.heartbeat();
+    const task = (await queue.next('worker-1'))!;
+    expect(queue.nack(task.id, 'crashed')).toBe(true);
+    expect(queue.getDeadLetters().map(d => d.task.id)).toEqual([task.id]);
+    expect(await queue.next('worker-1')).toBeNull();
+
+    expect(queue.retryDeadLetter(task.id)).toBe(true);
+    expect(await queue.next('worker-2')).toMatchObject({ id: task.id, status: 'in-progress' });
+    expect(await queue.ack(task.id, 'Docs written')).toBe(true);
+    expect(mock.getTask(bounty.id)).toMatchObject({ status: 'submitted', claimedBy: 'worker' });
+  });
+
+  test('should emit heartbeat news once and auto-claim matching tasks', async () => {
+    const gsn = await connect('Worker', 'worker', {
+      capabilities: ['coding'],
+      autoClaim: { minReward: 10, maxConcurrentClaims: 1 },
+    });
+    const events: ConnectorEvent[] = [];
+    gsn.events.on('platform:*', ({ payload }) => { events.push(payload); });
+
+    mock.addTask({ title: 'Too cheap', reward: 5, category: 'coding' });
+    mock.addTask({ title: 'Wrong skill', reward: 80, category: 'design' });
+    const best = mock.addTask({ title: 'Best match', reward: 40, tags: ['coding'] });
+    mock.addTask({ title: 'Second match', reward: 20, category: 'coding' });
+    mock.addAnnouncement('Maintenance', 'Tonight');
+
+    await gsn.heartbeat();
+    await gsn.heartbeat();
+
+    expect(events.filter(e => e.type === 'pending-task')).toHaveLength(4);
+    expect(events.filter(e => e.type === 'announcement')).toHaveLength(1);
+    const claimed = events.filter(e => e.type === 'task-auto-claimed');
+    expect(claimed.map(e => e.type === 'task-auto-claimed' && e.task.remoteId)).toEqual([best.id]);
+    expect(mock.getTask(best.id)?.claimedBy).toBe('worker');
+  });
+
+  test('should hold auto-claims queued in the outbox against capacity', async () => {
+    const gsn = await connect('Worker', 'worker', {
+      outbox: true,
+      autoClaim: { maxConcurrentClaims: 1, matchCapabilities: false },
+    });
+    const cause = new GSNNetworkError('Platform unreachable');
+    const claimTask = jest.spyOn(gsn.platform, 'claimTask')
+      .mockResolvedValue({ success: false, error: cause.message, kind: cause.kind, cause, queued: true });
+    const first = mock.addTask({ title: 'First', reward: 40 });
+    mock.addTask({ title: 'Second', reward: 20 });
+
+    await gsn.heartbeat();
+    await gsn.heartbeat();
+
+    expect(claimTask).toHaveBeenCalledTimes(1);
+    expect(gsn.coordinator.getTaskByRemoteId(first.id)?.status).toBe('claimed');
+  });
+
+  test('should not re-register a disposed connector on a late 401', async () => {
+    const gsn = await connect('Agent', 'agent-1', { healthCheckInterval: 0 });
+    await connect('Agent', 'agent-1', { healthCheckInterval: 0 });
+    const pending = gsn.heartbeat();
+    gsn.dispose();
+
+    expect(isPlatformFailure(await pending)).toBe(true);
+    expect(gsn.getState()).toBe('disposed');
+    expect(mock.getRequests().filter(r => r.path === '/api/connector/register')).toHaveLength(2);
+  });
+
+  test('should track connection state and re-register when the API key is rejected', async () => {
+    const gsn = await connect('Agent', 'agent-1', {
+      healthCheckInterval: 0,
+      offlineAfterFailures: 2,
+      requestPolicy: { maxRetries: 0 },
+    });
+    const transitions: string[] = [];
+    gsn.events.on('connector:state-changed', e => { transitions.push(`${e.payload.from}->${e.payload.to}`); });
+    expect(gsn.getState()).toBe('online');
+
+    // Registering the same agent elsewhere revokes the first key; the heartbeat re-registers and retries
+    await connect('Agent', 'agent-1', { healthCheckInterval: 0 });
+    const recovered = await gsn.heartbeat();
+    expect(isPlatformFailure(recovered)).toBe(false);
+    expect(gsn.getStatus()).toMatchObject({ state: 'online', registered: true, consecutiveHeartbeatFailures: 0, lastError: null });
+    expect(gsn.getStatus().lastHeartbeatAt).not.toBeNull();
+    expect(transitions).toEqual(['online->degraded', 'degraded->registering', 'registering->degraded', 'degraded->online']);
+    expect(mock.getRequests().filter(r => r.path === '/api/connector/heartbeat')).toHaveLength(2);
+
+    await mock.stop();
+    expect(await gsn.checkHealth()).toBe(false);
+    expect(gsn.getState()).toBe('degraded');
+    expect(await gsn.checkHealth()).toBe(false);
+    expect(gsn.getStatus()).toMatchObject({ state: 'offline', consecutiveHealthFailures: 2 });
+  });
+
+  test('should fail over to a discovered platform URL and register there', async () => {
+    const standby = new GSNMockPlatform();
+    const standbyUrl = await standby.start();
+    const urlFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'gsn-')), 'platform-url');
+    await fs.writeFile(urlFile, `# current tunnel\n${standbyUrl}/\n`);
+
+    try {
+      const gsn = await connect('Mover', 'mover', {
+        healthCheckInterval: 0,
+        urlResolvers: [fileUrlResolver(urlFile)],
+        requestPolicy: { maxRetries: 0 },
+      });
+      const moves: string[] = [];
+      gsn.events.on('connector:url-changed', e => { moves.push(e.payload.to); });
+
+      await mock.stop();
+      expect(isPlatformFailure(await gsn.heartbeat())).toBe(false);
+      expect(gsn.platform.getBaseUrl()).toBe(standbyUrl);
+      expect(moves).toEqual([standbyUrl]);
+      expect(standby.getAgent('mover')).toBeDefined();
+      expect(standby.getRequests().filter(r => r.path === '/api/connector/heartbeat' && r.agentId === 'mover')).toHaveLength(1);
+      expect(gsn.getState()).toBe('online');
+    } finally {
+      await standby.stop();
+      await fs.rm(path.dirname(urlFile), { recursive: true, force: true });
+    }
+  });
+
+  test('should push pending writes and say goodbye on shutdown', async () => {
+    const gsn = await connect('Leaver', 'leaver');
+    const snippet = gsn.memory.addSnippet('Written just before exit', ['exit']);
+
+    const result = await gsn.shutdown({ timeoutMs: 5000 });
+
+    expect(result).toEqual({ synced: true, outbox: null, notified: true, timedOut: false });
+    expect(mock.getSnippets().map(s => s.id)).toContain(snippet.id);
+    const heartbeats = mock.getRequests().filter(r => r.path === '/api/connector/heartbeat');
+    expect(heartbeats[heartbeats.length - 1].body.status).toBe('offline');
+    expect(gsn.getState()).toBe('disposed');
+    expect(() => gsn.memory.addSnippet('Too late')).toThrow(GSNSealedError);
+    await expect(gsn.shutdown()).resolves.toBe(result);
+  });
+
+  test('should ignore a sync response that arrives after a timed-out shutdown', async () => {
+    const gsn = await connect('Leaver', 'leaver');
+    gsn.memory.addSnippet('Pushed too slowly');
+    const send = gsn.platform.sync.bind(gsn.platform);
+    const held: Array<() => void> = [];
+    jest.spyOn(gsn.platform, 'sync').mockImplementation(async data => {
+      await new Promise<void>(resolve => { held.push(resolve); });
+      return send(data);
+    });
+    const acknowledge = jest.spyOn(gsn.memory, 'acknowledgeSync');
+    const apply = jest.spyOn(gsn.memory, 'applyRemoteSnippets');
+
+    const pending = gsn.sync();
+    expect(await gsn.shutdown({ timeoutMs: 20 })).toMatchObject({ synced: false, timedOut: true });
+    held.forEach(release => release());
+    await pending;
+
+    expect(acknowledge).not.toHaveBeenCalled();
+    expect(apply).not.toHaveBeenCalled();
+  });
+
+  test('should merge concurrent insight edits pulled during sync and report conflicts', async () => {
+    const alice = await connect('Alice', 'alice');
+    const bob = await connect('Bob', 'bob');
+    const conflicts: string[] = [];
+    alice.events.on('insight:conflict', ({ payload }) => { conflicts.push(payload.id); });
+
+    const insight = alice.insights.generateInsight('Retries', 'Back off exponentially', { tags: ['net'] });
+    await alice.sync();
+    await bob.sync();
+    expect(bob.insights.getInsight(insight.id)?.content).toBe('Back off exponentially');
+
+    alice.insights.updateInsight(insight.id, { tags: ['net', 'http'] });
+    bob.insights.updateInsight(insight.id, { confidence: 0.95 });
+    await bob.sync();
+    await alice.sync();
+    expect(alice.insights.getInsight(insight.id)).toMatchObject({ tags: ['http', 'net'], confidence: 0.95 });
+
+    alice.insights.updateInsight(insight.id, { content: 'Back off with jitter' });
+    bob.insights.updateInsight(insight.id, { content: 'Retry at most 3 times' });
+    await bob.sync();
+    await alice.sync();
+    expect(conflicts).toEqual([insight.id]);
+    expect(alice.insights.getInsight(insight.id)?.content).toBe('Back off with jitter');
+
+    alice.insights.resolveInsightConflict(insight.id, { content: 'Retry at most 3 times, with jitter' });
+    await alice.sync();
+    await bob.sync();
+    expect(bob.insights.getInsight(insight.id)?.content).toBe('Retry at most 3 times, with jitter');
+  });
+});